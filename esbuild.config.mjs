@@ -33,6 +33,9 @@ const context = await esbuild.context({
 		'@lezer/lr',
 		...builtins],
 	format: 'cjs',
+	loader: {
+		'.wasm': 'binary',
+	},
 	target: 'es2018',
 	logLevel: "info",
 	sourcemap: prod ? false : 'inline',
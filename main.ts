@@ -1,8 +1,34 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting } from 'obsidian';
-import { AnkiQuizSettings, DEFAULT_SETTINGS } from './src/settings';
+import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, getAllTags } from 'obsidian';
+import { AnkiQuizSettings, DEFAULT_SETTINGS, TriggerConfig, createTriggerConfig, migrateTriggers } from './src/settings';
 import { GeminiService, QuizQuestion } from './src/gemini-service';
 import { QuizModal } from './src/quiz-modal';
 import { AnkiConnectService } from './src/anki-connect';
+import { OrphanedNotesModal } from './src/orphaned-notes-modal';
+import { ExportManifest } from './src/export-manifest';
+import { AnkiDirectExporter, AnkiExportResult } from './src/anki-direct-exporter';
+import { ExportPreviewModal, ExportSelection } from './src/export-preview-modal';
+import { HIGHLIGHT_TRIGGER, HighlightGroup, findHighlightGroups, getHighlights, toClozeText } from './src/highlight-cloze';
+import { INLINE_TRIGGER, InlineCard, findInlineCards, parseInlineLine } from './src/inline-cards';
+import { NoteOptions, applyNoteOptions, parseNoteOptions } from './src/note-options';
+import { renderDeckTemplate, resolveDeckName } from './src/deck-template';
+import { findProtectedLines, splitComments } from './src/document-structure';
+import { clearTriggerCaches, findTriggerConfig, isUsableTrigger, matchTrigger, validateTriggerNames, validateTriggerPattern } from './src/trigger-matcher';
+import { CardTemplateContext, DEFAULT_BACK_TEMPLATE, DEFAULT_FRONT_TEMPLATE, LEGACY_FRONT_TEMPLATES, renderCardTemplate } from './src/card-template';
+import { AutoSync } from './src/auto-sync';
+import { ReviewScheduler } from './src/review-scheduler';
+import { ReviewCard, ReviewModal } from './src/review-modal';
+import { AnkiStatsService, CardStats, FileCardStats } from './src/anki-stats';
+import { AnkiStatsView, VIEW_TYPE_ANKI_STATS } from './src/anki-stats-view';
+import { cardStatsExtension, refreshCardStatsEffect } from './src/card-stats-decorations';
+import { CardBrowserView, VIEW_TYPE_CARD_BROWSER } from './src/card-browser-view';
+
+/**
+ * A trigger line found in a note
+ */
+interface TriggerMatch {
+	line: string;
+	lineIndex: number;
+}
 
 interface FolderProcessingResult {
 	folderPath: string;
@@ -10,16 +36,54 @@ interface FolderProcessingResult {
 	questionCount: number;
 }
 
+/**
+ * Card sources read from a file besides triggers
+ */
+interface CardSources {
+	highlights: boolean;
+	inline: boolean;
+}
+
 export default class AnkiQuizPlugin extends Plugin {
 	settings: AnkiQuizSettings;
 	geminiService: GeminiService;
 	ankiConnectService: AnkiConnectService;
+	exportManifest: ExportManifest;
+	reviewScheduler: ReviewScheduler;
+	autoSync: AutoSync;
+	ankiStats: AnkiStatsService;
+	// Anki review stats by (lowercased) card ID, shown in the sidebar and editor
+	cardStats: Map<string, CardStats> = new Map();
+	activeFileStats: FileCardStats | null = null;
+	// Set while cards are sent to Anki: overlapping exports could both add the same new note
+	exportInProgress = false;
+	// Background sync queue from the last session, handed to AutoSync on load
+	private savedSyncQueue: string[] = [];
 
 	async onload() {
 		await this.loadSettings();
 		this.geminiService = new GeminiService(this.settings);
 		this.ankiConnectService = new AnkiConnectService(this.settings.ankiConnect);
 
+		// Opt-in background sync of changed files
+		this.autoSync = new AutoSync(this, this.savedSyncQueue);
+		this.autoSync.register();
+
+		this.registerView(VIEW_TYPE_CARD_BROWSER, leaf => new CardBrowserView(leaf, this));
+
+		// Anki review stats for the active file
+		this.ankiStats = new AnkiStatsService(this.ankiConnectService);
+		this.registerView(VIEW_TYPE_ANKI_STATS, leaf => new AnkiStatsView(leaf, this));
+		this.registerEditorExtension(cardStatsExtension(
+			cardId => this.cardStats.get(cardId),
+			() => this.settings.showInlineStats
+		));
+		this.registerEvent(this.app.workspace.on('file-open', file => {
+			if (file && this.isCardStatsShown()) {
+				this.refreshCardStats(file);
+			}
+		}));
+
 		// Main command: Generate cards from triggers
 		this.addCommand({
 			id: 'generate-trigger-word-cards',
@@ -58,22 +122,76 @@ export default class AnkiQuizPlugin extends Plugin {
 			}
 		});
 
+		// Recovery: ignore the export manifest and push every file again
+		this.addCommand({
+			id: 'force-full-export-to-anki',
+			name: 'Force Full Re-export to Anki',
+			callback: () => {
+				if (!this.settings.ankiConnect.enabled) {
+					new Notice('AnkiConnect is not enabled. Please enable it in settings.');
+					return;
+				}
+				this.exportMultipleFilesToAnki(true);
+			}
+		});
+
+		// Clean up Anki notes whose trigger line was removed from the vault
+		this.addCommand({
+			id: 'reconcile-anki-orphans',
+			name: 'Review Anki Cards Removed from Vault',
+			callback: () => {
+				if (!this.settings.ankiConnect.enabled) {
+					new Notice('AnkiConnect is not enabled. Please enable it in settings.');
+					return;
+				}
+				this.reconcileAnkiNotes();
+			}
+		});
+
+		// Table of all cards in the configured folders
+		this.addCommand({
+			id: 'open-card-browser',
+			name: 'Open Card Browser',
+			callback: () => {
+				this.openCardBrowser();
+			}
+		});
+
+		// Sidebar with Anki review stats of the active file
+		this.addCommand({
+			id: 'show-anki-card-stats',
+			name: 'Show Anki Card Stats',
+			callback: () => {
+				this.activateStatsView();
+			}
+		});
+
+		// Spaced-repetition review without Anki
+		this.addCommand({
+			id: 'review-due-cards',
+			name: 'Review Due Cards in Obsidian',
+			callback: () => {
+				this.startReview();
+			}
+		});
+
+		// Cloze cards from ==highlights== in the current file
+		this.addCommand({
+			id: 'generate-cloze-only',
+			name: 'Generate Highlight Cloze Cards',
+			checkCallback: (checking: boolean) => {
+				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (markdownView) {
+					if (!checking) {
+						this.generateClozeFromHighlights();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
 		// LEGACY COMMANDS (commented out to hide from command palette)
-		// Legacy: Generate cloze cards from highlights
-		// this.addCommand({
-		// 	id: 'generate-cloze-only',
-		// 	name: 'Generate Cloze Cards Only (Legacy)',
-		// 	checkCallback: (checking: boolean) => {
-		// 		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		// 		if (markdownView) {
-		// 			if (!checking) {
-		// 				this.generateClozeFromHighlights();
-		// 			}
-		// 			return true;
-		// 		}
-		// 		return false;
-		// 	}
-		// });
 
 		// Legacy: Generate quiz from highlights and cues
 		// this.addCommand({
@@ -145,12 +263,21 @@ export default class AnkiQuizPlugin extends Plugin {
 			return;
 		}
 
+		const noteOptions = markdownView.file ? this.getNoteOptions(markdownView.file) : null;
+		if (noteOptions?.exclude) {
+			new Notice('This note is excluded from Anki export (anki-exclude)');
+			return;
+		}
+
 		try {
-			const content = markdownView.getViewData();
+			// Stamp block IDs onto new trigger lines first so the cards carry a stable identity
+			const content = this.settings.writeCardIds && markdownView.file ?
+				await this.ensureCardIds(markdownView.file) :
+				markdownView.getViewData();
 						console.log('📄 Processing document for triggers...');
 			
 			// Focus only on triggers
-			const triggerWordMatches = this.checkForTriggerWords(content);
+			const triggerWordMatches = this.checkForTriggerWords(content, markdownView.file);
 
 						console.log(`🎯 Found ${triggerWordMatches.length} triggers`);
 
@@ -161,14 +288,16 @@ export default class AnkiQuizPlugin extends Plugin {
 
 			// ⚡ FAST LOCAL PROCESSING (immediate results)
 			console.log('⚡ Processing triggers with context...');
-			const triggerQuestions = this.generateContextualTriggerCards(triggerWordMatches, content, markdownView);
+			let triggerQuestions = this.generateContextualTriggerCards(triggerWordMatches, content, markdownView);
+			if (noteOptions) {
+				triggerQuestions = applyNoteOptions(triggerQuestions, noteOptions);
+			}
 			console.log(`⚡ Generated ${triggerQuestions.length} contextual trigger cards`);
 
 			console.log(`⚡ Fast processing complete! Generated ${triggerQuestions.length} cards instantly`);
 
-			// Show modal with the locally generated cards
-			const modal = new QuizModal(this.app, triggerQuestions, this.settings.exportFormat, this.settings);
-			modal.open();
+			// Show the locally generated cards in the card browser
+			await this.openCardBrowser(triggerQuestions);
 
 			new Notice(`✅ Generated ${triggerQuestions.length} trigger cards!`);
 
@@ -178,7 +307,7 @@ export default class AnkiQuizPlugin extends Plugin {
 		}
 	}
 
-	async exportMultipleFilesToAnki() {
+	async exportMultipleFilesToAnki(forceFull: boolean = false) {
 		if (!this.settings.ankiConnect.enabled) {
 			new Notice('AnkiConnect is not enabled. Please enable it in settings.');
 			return;
@@ -189,67 +318,419 @@ export default class AnkiQuizPlugin extends Plugin {
 			return;
 		}
 
+		if (this.exportInProgress) {
+			new Notice('An export to Anki is already running. Try again once it has finished.');
+			return;
+		}
+		this.exportInProgress = true;
+
 		try {
-			const allQuestions: QuizQuestion[] = [];
-			let processedFiles = 0;
-			
 			new Notice(`� Processing ${this.settings.folderPaths.length} folder(s) for direct Anki export...`);
 
-			for (const folderPath of this.settings.folderPaths) {
-				// Get all markdown files in the specified path
-				const files = this.app.vault.getMarkdownFiles().filter(file => 
-					file.path.startsWith(folderPath + '/') || 
-					(folderPath === '' && !file.path.includes('/'))
-				);
+			const files = this.getFolderMarkdownFiles();
+			const sync = await this.syncFilesToAnki(files, false, [], forceFull);
+			if (sync.cancelled) {
+				new Notice('Export cancelled');
+				return;
+			}
 
-				for (const file of files) {
-					try {
-						const content = await this.app.vault.read(file);
-						
-						// Extract only trigger words
-						const triggerWordMatches = this.checkForTriggerWords(content);
-
-						// Create a mock MarkdownView object for compatibility
-						const mockView = {
-							file: file,
-							getViewData: () => content
-						};
-
-						// Generate trigger word cards only
-						if (triggerWordMatches.length > 0) {
-							const triggerQuestions = this.generateContextualTriggerCards(triggerWordMatches, content, mockView as any);
-							allQuestions.push(...triggerQuestions);
-							processedFiles++;
-						}
+			const removedFiles = this.exportManifest.prune(new Set(files.map(file => file.path)));
+			this.exportManifest.data.settingsHash = ExportManifest.hashSettings(this.settings);
+			await this.savePluginData();
 
-					} catch (error) {
-						console.error(`Error processing file ${file.path}:`, error);
-					}
+			if (!sync.result) {
+				new Notice(sync.unchangedFiles > 0 ?
+					`✅ Anki is up to date (${sync.unchangedFiles} unchanged files skipped)` :
+					'No triggers found in configured folders');
+			} else if (sync.result.success > 0) {
+				new Notice(`✅ Successfully exported ${sync.result.success} cards to Anki from ${sync.processedFiles} files!`);
+			} else {
+				new Notice(`❌ Export failed. ${sync.result.errors.join(', ')}`);
+			}
+
+			if ((sync.changedFiles > 0 || removedFiles > 0) && !sync.orphansReviewed && this.settings.reconcileAfterExport && this.settings.writeCardIds) {
+				await this.reviewOrphanedNotes(sync.vaultCardIds);
+			}
+
+		} catch (error) {
+			console.error('Error exporting multiple files to Anki:', error);
+			new Notice(`Error exporting multiple files to Anki: ${error.message}`);
+		} finally {
+			this.exportInProgress = false;
+		}
+	}
+
+	/**
+	 * Export the cards of the given files to Anki, skipping files whose cards haven't changed since
+	 * the last successful export, and record the outcome in the export manifest (not saved here).
+	 * Unless silent, the export is previewed first when enabled in settings; removed cards are
+	 * then reviewed in the same preview.
+	 * Card IDs are not written into the files of unstampedPaths (e.g. the note being edited).
+	 * Callers hold exportInProgress while it runs.
+	 * With forceFull every file is exported whether or not it changed, so cancelling the preview leaves the manifest as it was.
+	 */
+	async syncFilesToAnki(files: TFile[], silent: boolean = false, unstampedPaths: string[] = [], forceFull: boolean = false): Promise<{
+		result: AnkiExportResult | null;
+		changedFiles: number;
+		processedFiles: number;
+		unchangedFiles: number;
+		vaultCardIds: string[];
+		cancelled?: boolean;
+		orphansReviewed?: boolean;
+	}> {
+		// Settings that shape every card invalidate the mtime shortcut
+		const settingsChanged = this.exportManifest.data.settingsHash !== ExportManifest.hashSettings(this.settings);
+
+		const changedFiles: Array<{ file: TFile; questions: QuizQuestion[]; hash: string }> = [];
+		const vaultCardIds: string[] = [];
+		let unchangedFiles = 0;
+
+		for (const file of files) {
+			try {
+				const entry = this.exportManifest.get(file.path);
+				if (entry && !forceFull && !settingsChanged && entry.mtime === file.stat.mtime) {
+					vaultCardIds.push(...entry.cardIds);
+					unchangedFiles++;
+					continue;
 				}
+
+				const questions = await this.readTriggerCards(file, this.settings.writeCardIds && !unstampedPaths.includes(file.path));
+				const hash = ExportManifest.hashCards(questions, this.settings);
+				vaultCardIds.push(...this.getCardIds(questions));
+
+				if (entry && !forceFull && entry.hash === hash) {
+					// Saved but the cards are the same: just remember the new mtime
+					this.exportManifest.set({ ...entry, mtime: file.stat.mtime });
+					unchangedFiles++;
+					continue;
+				}
+
+				changedFiles.push({ file, questions, hash });
+			} catch (error) {
+				console.error(`Error processing file ${file.path}:`, error);
 			}
+		}
 
-			if (allQuestions.length === 0) {
-				new Notice('No triggers found in configured folders');
-				return;
+		const allQuestions = changedFiles.reduce((all, changed) => all.concat(changed.questions), [] as QuizQuestion[]);
+		const processedFiles = changedFiles.filter(changed => changed.questions.length > 0).length;
+		let result: AnkiExportResult | null = null;
+		let orphansReviewed = false;
+
+		if (allQuestions.length > 0) {
+			const exporter = new AnkiDirectExporter(this.settings, this.app);
+			let selection: ExportSelection | null = null;
+
+			if (!silent && this.settings.previewBeforeExport) {
+				const reconcile = this.settings.reconcileAfterExport && this.settings.writeCardIds;
+				selection = await this.previewExport(exporter, allQuestions, reconcile ? vaultCardIds : undefined);
+				if (!selection) {
+					return { result, changedFiles: changedFiles.length, processedFiles, unchangedFiles, vaultCardIds, cancelled: true };
+				}
+				orphansReviewed = reconcile;
 			}
 
-			// Import AnkiDirectExporter and export directly
-			const { AnkiDirectExporter } = await import('./src/anki-direct-exporter');
-			const exporter = new AnkiDirectExporter(this.settings);
-			
-			new Notice(`� Exporting ${allQuestions.length} cards from ${processedFiles} files to Anki...`);
-			const result = await exporter.exportToAnki(allQuestions);
-			
-			if (result.success > 0) {
-				new Notice(`✅ Successfully exported ${result.success} cards to Anki from ${processedFiles} files!`);
+			const questionsToExport = selection ? selection.questions : allQuestions;
+			if (!silent) {
+				new Notice(`� Exporting ${questionsToExport.length} cards from ${processedFiles} changed files to Anki (${unchangedFiles} unchanged files skipped)...`);
+			}
+			result = await this.exportWithSyncStates(exporter, questionsToExport, silent, selection);
+		}
+
+		this.recordExportedFiles(changedFiles, result);
+
+		return { result, changedFiles: changedFiles.length, processedFiles, unchangedFiles, vaultCardIds, orphansReviewed };
+	}
+
+	/**
+	 * Record exported files in the export manifest (not saved here). Only files whose cards are all
+	 * in sync with Anki are remembered, so failures, cards unchecked in the preview, skipped changes
+	 * and conflicts are exported again next time.
+	 * Files whose last trigger was removed have nothing to push but are now in sync.
+	 */
+	recordExportedFiles(files: Array<{ file: TFile; questions: QuizQuestion[]; hash: string }>, result: AnkiExportResult | null) {
+		for (const { file, questions, hash } of files) {
+			const noteIds = questions.map(question => result?.noteIds.get(question));
+			if (noteIds.every(noteId => noteId !== undefined)) {
+				this.exportManifest.set({
+					path: file.path,
+					mtime: file.stat.mtime,
+					hash,
+					cardIds: this.getCardIds(questions),
+					noteIds: noteIds as number[]
+				});
+			} else {
+				this.exportManifest.remove(file.path);
+			}
+		}
+	}
+
+	/**
+	 * Export cards with conflict detection against the sync states in the export manifest,
+	 * then record the new states (not saved here). Answers the user chose to keep from Anki
+	 * are written back into their trigger lines.
+	 */
+	async exportWithSyncStates(exporter: AnkiDirectExporter, questions: QuizQuestion[], silent: boolean, selection: ExportSelection | null): Promise<AnkiExportResult> {
+		const result = await exporter.exportToAnki(questions, silent, {
+			forceUpdate: selection !== null,
+			syncStates: this.exportManifest.data.notes,
+			resolutions: selection?.resolutions
+		});
+		this.exportManifest.setNoteStates(result.syncStates);
+
+		let written = 0;
+		for (const { question, answer } of selection?.writeBacks || []) {
+			if (await this.updateCardAnswer(question, answer)) {
+				written++;
+			}
+		}
+		if (written > 0) {
+			new Notice(`✏️ Wrote ${written} answers edited in Anki back into your notes`);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Show what an export would change and wait for the user to confirm.
+	 * Confirmed orphan actions are applied right away; returns the cards to send, or null if cancelled.
+	 */
+	async previewExport(exporter: AnkiDirectExporter, questions: QuizQuestion[], vaultCardIds?: string[]): Promise<ExportSelection | null> {
+		new Notice('🔍 Comparing cards with Anki...');
+		const preview = await exporter.previewExport(questions, vaultCardIds, this.exportManifest.data.notes);
+		const updateExisting = this.settings.ankiConnect.existingNoteBehavior === 'update';
+
+		const selection = await new Promise<ExportSelection | null>(resolve => {
+			new ExportPreviewModal(this.app, preview, updateExisting, resolve).open();
+		});
+
+		if (selection && selection.orphans.length > 0) {
+			const success = await exporter.resolveOrphanedNotes(selection.orphans, selection.orphanAction);
+			if (success) {
+				const verb = selection.orphanAction === 'delete' ? 'Deleted' : selection.orphanAction === 'suspend' ? 'Suspended' : 'Tagged';
+				new Notice(`✅ ${verb} ${selection.orphans.length} orphaned notes in Anki`);
 			} else {
-				new Notice(`❌ Export failed. ${result.errors.join(', ')}`);
+				new Notice('❌ Failed to update orphaned notes. Check console for details.');
 			}
+		}
+
+		return selection;
+	}
+
+	/**
+	 * Check whether a path lies inside one of the configured folders
+	 */
+	isInExportFolders(path: string): boolean {
+		return this.settings.folderPaths.some(folderPath =>
+			path.startsWith(folderPath + '/') || 
+			(folderPath === '' && !path.includes('/'))
+		);
+	}
 
+	/**
+	 * Get every markdown file inside the configured folders (each file once)
+	 */
+	getFolderMarkdownFiles(): TFile[] {
+		return this.app.vault.getMarkdownFiles().filter(file => this.isInExportFolders(file.path));
+	}
+
+	/**
+	 * Card IDs of the given cards (cards without an ID are left out)
+	 */
+	getCardIds(questions: QuizQuestion[]): string[] {
+		return questions.map(question => question.cardId).filter((id): id is string => !!id);
+	}
+
+	/**
+	 * Generate trigger cards for every markdown file in the configured folders
+	 */
+	async collectFolderTriggerCards(): Promise<{ questions: QuizQuestion[]; processedFiles: number }> {
+		const questions: QuizQuestion[] = [];
+		let processedFiles = 0;
+
+		for (const file of this.getFolderMarkdownFiles()) {
+			try {
+				const triggerQuestions = await this.readTriggerCards(file);
+				if (triggerQuestions.length > 0) {
+					questions.push(...triggerQuestions);
+					processedFiles++;
+				}
+
+			} catch (error) {
+				console.error(`Error processing file ${file.path}:`, error);
+			}
+		}
+
+		return { questions, processedFiles };
+	}
+
+	/**
+	 * Open the card browser in a main tab, showing the given cards or loading the folder cards
+	 */
+	async openCardBrowser(questions?: QuizQuestion[]) {
+		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_CARD_BROWSER)[0];
+		const leaf = existing || this.app.workspace.getLeaf('tab');
+		if (!existing) {
+			// A new browser loads the folder cards itself when opened
+			await leaf.setViewState({ type: VIEW_TYPE_CARD_BROWSER, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+
+		if (leaf.view instanceof CardBrowserView) {
+			if (questions) {
+				leaf.view.setCards(questions);
+			} else if (existing) {
+				await leaf.view.loadCards();
+			}
+		}
+	}
+
+	/**
+	 * Open the stats sidebar, or reveal it if it's already open
+	 */
+	async activateStatsView() {
+		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_ANKI_STATS);
+		if (existing.length > 0) {
+			this.app.workspace.revealLeaf(existing[0]);
+			return;
+		}
+
+		const leaf = this.app.workspace.getRightLeaf(false);
+		if (leaf) {
+			await leaf.setViewState({ type: VIEW_TYPE_ANKI_STATS, active: true });
+			this.app.workspace.revealLeaf(leaf);
+		}
+	}
+
+	isCardStatsShown(): boolean {
+		return this.settings.showInlineStats || this.app.workspace.getLeavesOfType(VIEW_TYPE_ANKI_STATS).length > 0;
+	}
+
+	/**
+	 * Fetch the Anki review stats of a file's trigger cards and update the sidebar and editors
+	 */
+	async refreshCardStats(file: TFile) {
+		if (file.extension !== 'md') return;
+
+		try {
+			const questions = await this.peekTriggerCards(file);
+			if (!this.settings.ankiConnect.enabled) {
+				this.activeFileStats = { path: file.path, questions, stats: {}, error: 'AnkiConnect is not enabled. Enable it in settings to see review stats.' };
+			} else {
+				const stats = await this.ankiStats.getStats(this.getCardIds(questions), this.settings.leechThreshold);
+				Object.values(stats).forEach(cardStats => this.cardStats.set(cardStats.cardId, cardStats));
+				this.activeFileStats = { path: file.path, questions, stats };
+			}
 		} catch (error) {
-			console.error('Error exporting multiple files to Anki:', error);
-			new Notice(`Error exporting multiple files to Anki: ${error.message}`);
+			console.error('Failed to load Anki stats:', error);
+			this.activeFileStats = { path: file.path, questions: [], stats: {}, error: `Could not load stats from Anki: ${error.message}` };
+		}
+
+		this.updateStatsDisplays();
+	}
+
+	/**
+	 * Redraw the stats sidebar and the inline stats of open editors
+	 */
+	updateStatsDisplays() {
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_ANKI_STATS).forEach(leaf => {
+			if (leaf.view instanceof AnkiStatsView) {
+				leaf.view.render();
+			}
+		});
+		this.app.workspace.getLeavesOfType('markdown').forEach(leaf => {
+			const editorView = ((leaf.view as MarkdownView).editor as any)?.cm;
+			editorView?.dispatch({ effects: refreshCardStatsEffect.of(null) });
+		});
+	}
+
+	/**
+	 * Collect the trigger cards of the configured folders and open the review session
+	 */
+	async startReview() {
+		if (this.settings.folderPaths.length === 0) {
+			new Notice('No folders configured. Please add folder paths in settings.');
+			return;
 		}
+
+		try {
+			const { questions } = await this.collectFolderTriggerCards();
+
+			// Review history is kept per card ID, so only cards with an ID can be scheduled
+			const cards = new Map<string, ReviewCard>();
+			questions.forEach(question => {
+				if (question.cardId && !cards.has(question.cardId)) {
+					cards.set(question.cardId, { cardId: question.cardId, deck: this.getDeckName(question), question });
+				}
+			});
+
+			if (cards.size === 0) {
+				new Notice('No cards with card IDs found. Enable "Write Card IDs" and generate cards first.');
+				return;
+			}
+
+			new ReviewModal(this.app, Array.from(cards.values()), this.reviewScheduler, () => this.savePluginData()).open();
+		} catch (error) {
+			console.error('Error starting review:', error);
+			new Notice(`Error starting review: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Deck a card belongs to: its own deck, its trigger's deck, or the deck template
+	 */
+	getDeckName(question: QuizQuestion): string {
+		const frontmatter = question.sourcePath ? this.app.metadataCache.getCache(question.sourcePath)?.frontmatter : undefined;
+		return resolveDeckName(question, question.trigger, this.settings, frontmatter);
+	}
+
+	/**
+	 * Scan the configured folders and offer to clean up Anki notes whose trigger line was removed
+	 */
+	async reconcileAnkiNotes() {
+		if (!this.settings.writeCardIds) {
+			new Notice('Card IDs are disabled. Enable "Write Card IDs" in settings to track removed cards.');
+			return;
+		}
+
+		if (this.settings.folderPaths.length === 0) {
+			new Notice('No folders configured. Please add folder paths in settings.');
+			return;
+		}
+
+		try {
+			const { questions } = await this.collectFolderTriggerCards();
+			await this.reviewOrphanedNotes(this.getCardIds(questions));
+		} catch (error) {
+			console.error('Error reconciling Anki notes:', error);
+			new Notice(`Error reconciling Anki notes: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Show orphaned Anki notes for review, then apply the chosen action
+	 */
+	async reviewOrphanedNotes(vaultCardIds: string[]) {
+		const { AnkiDirectExporter } = await import('./src/anki-direct-exporter');
+		const exporter = new AnkiDirectExporter(this.settings, this.app);
+
+		const orphans = await exporter.findOrphanedNotes(vaultCardIds);
+		if (orphans.length === 0) {
+			new Notice('✅ No orphaned cards in Anki');
+			return;
+		}
+
+		new OrphanedNotesModal(this.app, orphans, async (selected, action) => {
+			if (selected.length === 0) {
+				return;
+			}
+			const success = await exporter.resolveOrphanedNotes(selected, action);
+			if (success) {
+				const verb = action === 'delete' ? 'Deleted' : action === 'suspend' ? 'Suspended' : 'Tagged';
+				new Notice(`✅ ${verb} ${selected.length} orphaned notes in Anki`);
+			} else {
+				new Notice('❌ Failed to update orphaned notes. Check console for details.');
+			}
+		}).open();
 	}
 
 	async processFoldersTriggerWords() {
@@ -296,9 +777,8 @@ export default class AnkiQuizPlugin extends Plugin {
 
 			// Show processing results first
 			const resultsModal = new ProcessingResultsModal(this.app, processingResults, () => {
-				// Show quiz modal after results are acknowledged
-				const modal = new QuizModal(this.app, allQuestions, this.settings.exportFormat, this.settings);
-				modal.open();
+				// Show the card browser after results are acknowledged
+				this.openCardBrowser(allQuestions);
 			});
 			resultsModal.open();
 
@@ -321,23 +801,7 @@ export default class AnkiQuizPlugin extends Plugin {
 
 		for (const file of files) {
 			try {
-				const content = await this.app.vault.read(file);
-				
-				// Extract only trigger words
-				const triggerWordMatches = this.checkForTriggerWords(content);
-
-				// Create a mock MarkdownView object for compatibility
-				const mockView = {
-					file: file,
-					getViewData: () => content
-				};
-
-				// Generate trigger word cards only
-				if (triggerWordMatches.length > 0) {
-					const triggerQuestions = this.generateContextualTriggerCards(triggerWordMatches, content, mockView as any);
-					questions.push(...triggerQuestions);
-				}
-
+				questions.push(...await this.readTriggerCards(file));
 			} catch (error) {
 				console.error(`Error processing file ${file.path}:`, error);
 			}
@@ -360,7 +824,7 @@ export default class AnkiQuizPlugin extends Plugin {
 			// Extract all types of content for fast local processing
 			const highlightMatches = this.extractHighlights(content);
 			const remNoteMatches = this.extractRemNoteCues(content);
-			const triggerWordMatches = this.checkForTriggerWords(content);
+			const triggerWordMatches = this.checkForTriggerWords(content, markdownView.file);
 
 			console.log(`🔍 Found ${highlightMatches.length} highlights, ${remNoteMatches.length} RemNote cues, ${triggerWordMatches.length} trigger words`);
 
@@ -418,20 +882,31 @@ export default class AnkiQuizPlugin extends Plugin {
 			return;
 		}
 
+		const file = markdownView.file;
+		if (!file) {
+			return;
+		}
+
+		const noteOptions = this.getNoteOptions(file);
+		if (noteOptions.exclude) {
+			new Notice('This note is excluded from Anki export (anki-exclude)');
+			return;
+		}
+
 		try {
-			const content = markdownView.getViewData();
-			const highlights = this.extractHighlights(content);
+			// Stamp block IDs onto highlighted lines so the cloze notes can be tracked
+			const content = this.settings.writeCardIds ?
+				await this.ensureCardIds(file, { ...this.getCardSources(file.path), highlights: true }) :
+				markdownView.getViewData();
+			const questions = applyNoteOptions(this.generateHighlightClozeCards(content, file), noteOptions);
 			
-			if (highlights.length === 0) {
+			if (questions.length === 0) {
 				new Notice('No highlights found in this document');
 				return;
 			}
 
-			// Generate contextual cloze cards
-			const questions = this.generateContextualClozeCards(content, highlights, markdownView);
-			
-			const modal = new QuizModal(this.app, questions, this.settings.exportFormat, this.settings);
-			modal.open();
+			await this.openCardBrowser(questions);
+			new Notice(`✅ Generated ${questions.length} highlight cloze cards!`);
 
 		} catch (error) {
 			console.error('Error generating cloze cards:', error);
@@ -458,7 +933,7 @@ export default class AnkiQuizPlugin extends Plugin {
 			// Extract all types of content for fast local processing first
 			const highlightMatches = this.extractHighlights(content);
 			const remNoteMatches = this.extractRemNoteCues(content);
-			const triggerWordMatches = this.checkForTriggerWords(content);
+			const triggerWordMatches = this.checkForTriggerWords(content, markdownView.file);
 
 			console.log(`🔍 Found ${highlightMatches.length} highlights, ${remNoteMatches.length} RemNote cues, ${triggerWordMatches.length} trigger words`);
 
@@ -589,7 +1064,7 @@ export default class AnkiQuizPlugin extends Plugin {
 				// Extract content like in the main method
 				const highlightMatches = this.extractHighlights(content);
 				const remNoteMatches = this.extractRemNoteCues(content);
-				const triggerWordMatches = this.checkForTriggerWords(content);
+				const triggerWordMatches = this.checkForTriggerWords(content, file);
 
 				// Create a mock MarkdownView object for compatibility
 				const mockView = {
@@ -639,23 +1114,7 @@ export default class AnkiQuizPlugin extends Plugin {
 
 		for (const file of files) {
 			try {
-				const content = await this.app.vault.read(file);
-				
-				// Extract only trigger words
-				const triggerWordMatches = this.checkForTriggerWords(content);
-
-				// Create a mock MarkdownView object for compatibility
-				const mockView = {
-					file: file,
-					getViewData: () => content
-				};
-
-				// Generate trigger word cards only
-				if (triggerWordMatches.length > 0) {
-					const triggerQuestions = this.generateContextualTriggerCards(triggerWordMatches, content, mockView as any);
-					questions.push(...triggerQuestions);
-				}
-
+				questions.push(...await this.readTriggerCards(file));
 			} catch (error) {
 				console.error(`Error processing file ${file.path}:`, error);
 			}
@@ -680,7 +1139,7 @@ export default class AnkiQuizPlugin extends Plugin {
 				// Extract content like in the main method (all types)
 				const highlightMatches = this.extractHighlights(content);
 				const remNoteMatches = this.extractRemNoteCues(content);
-				const triggerWordMatches = this.checkForTriggerWords(content);
+				const triggerWordMatches = this.checkForTriggerWords(content, file);
 
 				// Create a mock MarkdownView object for compatibility
 				const mockView = {
@@ -712,20 +1171,391 @@ export default class AnkiQuizPlugin extends Plugin {
 		return questions;
 	}
 
+	/**
+	 * Read a file and generate its trigger cards (plus inline and highlight cloze cards where enabled),
+	 * stamping card IDs onto new card lines first (unless stampIds is off).
+	 * The note's frontmatter options apply to all its cards; excluded notes give no cards and are left untouched.
+	 */
+	async readTriggerCards(file: TFile, stampIds: boolean = this.settings.writeCardIds): Promise<QuizQuestion[]> {
+		const noteOptions = this.getNoteOptions(file);
+		if (noteOptions.exclude) {
+			return [];
+		}
+
+		const sources = this.getCardSources(file.path);
+		const content = stampIds ?
+			await this.ensureCardIds(file, sources) :
+			await this.app.vault.read(file);
+
+		return this.generateFileCards(file, content, sources, noteOptions);
+	}
+
+	/**
+	 * The cards of a file as they are, without writing card IDs into it. Used by the stats
+	 * sidebar and inline stats, which only look at notes and must never change them.
+	 */
+	async peekTriggerCards(file: TFile): Promise<QuizQuestion[]> {
+		const noteOptions = this.getNoteOptions(file);
+		if (noteOptions.exclude) {
+			return [];
+		}
+
+		const content = await this.app.vault.cachedRead(file);
+		return this.generateFileCards(file, content, this.getCardSources(file.path), noteOptions);
+	}
+
+	/**
+	 * Trigger, inline and highlight cloze cards of a file's content, with the note's options applied
+	 */
+	generateFileCards(file: TFile, content: string, sources: CardSources, noteOptions: NoteOptions): QuizQuestion[] {
+		const questions: QuizQuestion[] = [];
+
+		// Extract only trigger words
+		const triggerWordMatches = this.checkForTriggerWords(content, file);
+		if (triggerWordMatches.length > 0) {
+			// Create a mock MarkdownView object for compatibility
+			const mockView = {
+				file: file,
+				getViewData: () => content
+			};
+			questions.push(...this.generateContextualTriggerCards(triggerWordMatches, content, mockView as any));
+		}
+
+		if (sources.inline) {
+			questions.push(...this.generateInlineCards(content, file));
+		}
+
+		if (sources.highlights) {
+			questions.push(...this.generateHighlightClozeCards(content, file, sources.inline));
+		}
+
+		return applyNoteOptions(questions, noteOptions);
+	}
+
+	/**
+	 * Front and Back of the first trigger card of the active note, for the template preview in settings
+	 */
+	async previewCardTemplates(): Promise<{ front: string; back: string } | null> {
+		const file = this.app.workspace.getActiveFile();
+		if (!file || file.extension !== 'md') {
+			return null;
+		}
+
+		const content = await this.app.vault.cachedRead(file);
+		const triggerWordMatches = this.checkForTriggerWords(content, file);
+		if (triggerWordMatches.length === 0) {
+			return null;
+		}
+
+		const mockView = { file, getViewData: () => content };
+		const [question] = this.generateContextualTriggerCards(triggerWordMatches.slice(0, 1), content, mockView as any);
+		if (!question) {
+			return null;
+		}
+		const back = question.backTemplate ? question.backTemplate.split('{{content}}').join(question.answer) : question.answer;
+		return {
+			front: question.question,
+			back: question.backBreadcrumb ? `${back}\n\n-> ${question.backBreadcrumb}` : back
+		};
+	}
+
+	/**
+	 * Export options from the note's frontmatter (anki-deck, anki-tags, anki-note-type, anki-exclude)
+	 */
+	getNoteOptions(file: TFile): NoteOptions {
+		const cache = this.app.metadataCache.getFileCache(file);
+		// getAllTags includes tags listed in the frontmatter
+		const noteTags = cache ? getAllTags(cache) || [] : [];
+		return parseNoteOptions(cache?.frontmatter, noteTags, this.settings.propagateTags);
+	}
+
+	/**
+	 * Which card sources besides triggers apply to a file
+	 */
+	getCardSources(path: string): CardSources {
+		return {
+			highlights: this.isHighlightClozeEnabled(path),
+			inline: this.settings.inlineCards.enabled
+		};
+	}
+
+	/**
+	 * Whether ==highlights== in this file become cloze cards
+	 */
+	isHighlightClozeEnabled(path: string): boolean {
+		const { enabled, folders } = this.settings.highlightCloze;
+		if (!enabled) {
+			return false;
+		}
+		if (folders.length === 0) {
+			return this.isInExportFolders(path);
+		}
+		return folders.some(folderPath =>
+			path.startsWith(folderPath + '/') ||
+			(folderPath === '' && !path.includes('/'))
+		);
+	}
+
+	/**
+	 * Inline cards of a note (trigger lines, code, frontmatter and comments excluded)
+	 */
+	findInlineCards(lines: string[], protectedLines: Set<number> = findProtectedLines(lines)): InlineCard[] {
+		return findInlineCards(lines, line => this.stripCardId(line),
+			(line, index) => protectedLines.has(index) || this.isTriggerLine(line),
+			this.settings.inlineCards.skipDataviewFields);
+	}
+
+	/**
+	 * Highlight cloze notes of a note. Trigger lines, and inline card lines if those are enabled,
+	 * belong to their own cards.
+	 */
+	findHighlightGroups(lines: string[], inline: boolean, protectedLines: Set<number> = findProtectedLines(lines)): HighlightGroup[] {
+		const inlineLines = new Set<number>();
+		if (inline) {
+			this.findInlineCards(lines, protectedLines).forEach(card => card.lineIndexes.forEach(index => inlineLines.add(index)));
+		}
+		return findHighlightGroups(lines, this.settings.highlightCloze.grouping,
+			(line, index) => protectedLines.has(index) || this.isTriggerLine(line) || inlineLines.has(index));
+	}
+
+	/**
+	 * Cards written inline as Q::A, Q:::A or question/?/answer blocks
+	 */
+	generateInlineCards(content: string, file: TFile): QuizQuestion[] {
+		const lines = content.split('\n');
+		const filename = this.generateFilenameDisplay(file, false);
+		const { deck, tags } = this.settings.inlineCards;
+		const protectedLines = this.getProtectedLines(lines, file);
+
+		return this.findInlineCards(lines, protectedLines).map(card => {
+			const cardId = this.extractCardId(lines[card.idLine]);
+
+			// Get the heading breadcrumb for the first line of the card
+			const headingPath = this.getHeadingPath(lines, card.lineIndexes[0], protectedLines);
+			const relevantHeader = headingPath.length > 0 ? headingPath[headingPath.length - 1] : null;
+			const breadcrumb = this.formatBreadcrumb(headingPath);
+
+			// Build context with filename and breadcrumb, as for trigger cards
+			let contextString = filename + `\n`;
+			if (breadcrumb && this.settings.breadcrumb.placement === 'front') {
+				contextString += `\n-> ${breadcrumb}`;
+			}
+
+			return {
+				...this.getBreadcrumbFields(breadcrumb, false),
+				type: 'short-answer',
+				question: `${contextString}\n\n${card.question}`,
+				answer: card.answer,
+				cardId: cardId || undefined,
+				trigger: INLINE_TRIGGER,
+				sourcePath: file.path,
+				sourceHeading: relevantHeader || undefined,
+				deck: deck.trim() || undefined,
+				tags: tags.length > 0 ? [...tags] : undefined,
+				reversed: card.reversed || undefined,
+				sourceLines: [card.lineIndexes[0], card.lineIndexes[card.lineIndexes.length - 1]]
+			} as QuizQuestion;
+		});
+	}
+
+	/**
+	 * Cloze cards from the ==highlights== of a note. Highlights of one line (or paragraph,
+	 * depending on the grouping setting) become c1, c2, c3... of the same note.
+	 * Highlights on trigger (and inline card) lines are left to those cards.
+	 */
+	generateHighlightClozeCards(content: string, file: TFile, inline: boolean = this.settings.inlineCards.enabled): QuizQuestion[] {
+		const lines = content.split('\n');
+		const filename = this.generateFilenameDisplay(file, false);
+		const { deck, tags } = this.settings.highlightCloze;
+		const protectedLines = this.getProtectedLines(lines, file);
+
+		return this.findHighlightGroups(lines, inline, protectedLines).map(group => {
+			const groupLines = group.lineIndexes.map(index => this.stripCardId(lines[index]));
+			const cardId = [group.idLine, ...group.lineIndexes]
+				.map(index => this.extractCardId(lines[index]))
+				.find(id => id !== null);
+
+			// Get the heading breadcrumb for the first line of the note
+			const headingPath = this.getHeadingPath(lines, group.lineIndexes[0], protectedLines);
+			const relevantHeader = headingPath.length > 0 ? headingPath[headingPath.length - 1] : null;
+			const breadcrumb = this.formatBreadcrumb(headingPath);
+
+			// Build context with filename and breadcrumb
+			let contextString = filename;
+			if (breadcrumb && this.settings.breadcrumb.placement === 'front') {
+				contextString += `\n-> ${breadcrumb}`;
+			}
+
+			const clozeText = `${contextString}\n ${toClozeText(groupLines)}`;
+			const highlights = ([] as string[]).concat(...groupLines.map(getHighlights));
+
+			return {
+				...this.getBreadcrumbFields(breadcrumb, true),
+				type: 'cloze',
+				question: clozeText,
+				answer: highlights.join(', '),
+				clozeText,
+				cardId: cardId || undefined,
+				trigger: HIGHLIGHT_TRIGGER,
+				sourcePath: file.path,
+				sourceHeading: relevantHeader || undefined,
+				deck: deck.trim() || undefined,
+				tags: tags.length > 0 ? [...tags] : undefined,
+				sourceLines: [group.lineIndexes[0], group.lineIndexes[group.lineIndexes.length - 1]]
+			} as QuizQuestion;
+		});
+	}
+
+	/**
+	 * Append a block ID to every card line in the file that doesn't have one yet.
+	 * Returns the (possibly updated) file content.
+	 */
+	async ensureCardIds(file: TFile, sources: CardSources = this.getCardSources(file.path)): Promise<string> {
+		const content = await this.app.vault.read(file);
+		if (this.addMissingCardIds(content, sources, file) === content) {
+			return content;
+		}
+		return this.app.vault.process(file, data => this.addMissingCardIds(data, sources, file));
+	}
+
+	/**
+	 * Add a `^fc-xxxxxx` block ID to trigger lines without one, and to the ID line of
+	 * inline cards and highlight cloze notes that have none on any of their lines.
+	 * Code blocks, frontmatter and comments are left untouched.
+	 */
+	addMissingCardIds(content: string, sources: CardSources = { highlights: false, inline: false }, file?: TFile): string {
+		const lines = content.split('\n');
+		const usedIds = new Set(lines.map(line => this.extractCardId(line)).filter((id): id is string => id !== null));
+		const protectedLines = this.getProtectedLines(lines, file);
+
+		const idLines = new Set<number>();
+		const cards: Array<{ lineIndexes: number[]; idLine: number }> = [
+			...(sources.inline ? this.findInlineCards(lines, protectedLines) : []),
+			...(sources.highlights ? this.findHighlightGroups(lines, sources.inline, protectedLines) : [])
+		];
+		cards
+			.filter(card => card.lineIndexes.every(index => this.extractCardId(lines[index]) === null))
+			.forEach(card => idLines.add(card.idLine));
+
+		return lines.map((line, index) => {
+			const isTriggerLine = !protectedLines.has(index) && this.isTriggerLine(line);
+			if (this.extractCardId(line) !== null || (!isTriggerLine && !idLines.has(index))) {
+				return line;
+			}
+			let cardId: string;
+			do {
+				cardId = 'fc-' + Math.random().toString(36).substring(2, 8);
+			} while (usedIds.has(cardId));
+			usedIds.add(cardId);
+			return `${line.replace(/\s+$/, '')} ^${cardId}`;
+		}).join('\n');
+	}
+
+	/**
+	 * Get the block ID at the end of a line (without the ^), if any
+	 */
+	extractCardId(line: string): string | null {
+		const match = line.match(/\s\^([A-Za-z0-9-]+)\s*$/);
+		return match ? match[1] : null;
+	}
+
+	/**
+	 * Remove a trailing block ID from a line
+	 */
+	stripCardId(line: string): string {
+		return line.replace(/\s\^[A-Za-z0-9-]+\s*$/, '');
+	}
+
+	/**
+	 * Replace the answer of a trigger or inline card (found by card ID) in its source file
+	 */
+	async updateCardAnswer(question: QuizQuestion, newAnswer: string): Promise<boolean> {
+		const file = question.sourcePath ? this.app.vault.getAbstractFileByPath(question.sourcePath) : null;
+		const { cardId, trigger } = question;
+		if (!(file instanceof TFile) || !cardId || !trigger) {
+			return false;
+		}
+
+		let updated = false;
+		await this.app.vault.process(file, data => {
+			const lines = data.split('\n');
+			const index = lines.findIndex(line => this.extractCardId(line) === cardId);
+
+			if (trigger === INLINE_TRIGGER && index !== -1) {
+				// Q::A line: swap the text after the separator. Otherwise it's the answer line of a ?-block.
+				const line = this.stripCardId(lines[index]).replace(/\s+$/, '');
+				const parsed = parseInlineLine(line, this.settings.inlineCards.skipDataviewFields);
+				const prefix = parsed ?
+					line.substring(0, line.length - parsed.answer.length) :
+					(line.match(/^\s*/) as RegExpMatchArray)[0];
+				lines[index] = `${prefix}${newAnswer.trim()} ^${cardId}`;
+				updated = true;
+				return lines.join('\n');
+			}
+
+			const config = findTriggerConfig(this.settings.triggers, trigger);
+			const { text: line, comments } = splitComments(index !== -1 ? this.stripCardId(lines[index]) : '');
+			const match = config ? matchTrigger(line, config, this.settings.triggerSeparators) : null;
+			if (!match) {
+				return data;
+			}
+
+			// Keep the marker, trigger and comments, swap only the answer
+			const before = line.substring(0, match.backStart);
+			const after = line.substring(match.backEnd).replace(/\s+$/, '');
+			const kept = comments.map(comment => ` ${comment}`).join('');
+			lines[index] = `${before}${newAnswer.trim()}${after}${kept} ^${cardId}`;
+			updated = true;
+			return lines.join('\n');
+		});
+		return updated;
+	}
+
 	onunload() {
 
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = await this.loadData();
+		const { exportManifest, reviewData, syncQueue, blockTriggers, ...savedSettings } = data || {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, savedSettings);
+		// Merge nested AnkiConnect options so newly added ones get their defaults
+		this.settings.ankiConnect = Object.assign({}, DEFAULT_SETTINGS.ankiConnect, savedSettings.ankiConnect);
+		this.settings.highlightCloze = Object.assign({}, DEFAULT_SETTINGS.highlightCloze, savedSettings.highlightCloze);
+		this.settings.inlineCards = Object.assign({}, DEFAULT_SETTINGS.inlineCards, savedSettings.inlineCards);
+		this.settings.cardTemplates = Object.assign({}, DEFAULT_SETTINGS.cardTemplates, savedSettings.cardTemplates);
+		this.settings.breadcrumb = Object.assign({}, DEFAULT_SETTINGS.breadcrumb, savedSettings.breadcrumb);
+		// Earlier default fronts showed the nearest heading, or the breadcrumb wherever it was placed
+		if (LEGACY_FRONT_TEMPLATES.includes(this.settings.cardTemplates.front)) {
+			this.settings.cardTemplates.front = DEFAULT_FRONT_TEMPLATE;
+		}
+		this.exportManifest = new ExportManifest(exportManifest);
+		this.reviewScheduler = new ReviewScheduler(reviewData);
+		this.savedSyncQueue = Array.isArray(syncQueue) ? syncQueue : [];
+
+		// Triggers used to be saved as plain strings; convert them to trigger configs
+		this.settings.triggers = migrateTriggers(this.settings.triggers, blockTriggers);
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		clearTriggerCaches();
+		await this.savePluginData();
 		this.geminiService.updateSettings(this.settings);
 		this.ankiConnectService.updateSettings(this.settings.ankiConnect);
 	}
 
+	/**
+	 * Persist settings together with the export manifest, review history and background sync queue
+	 */
+	async savePluginData() {
+		await this.saveData({
+			...this.settings,
+			exportManifest: this.exportManifest.data,
+			reviewData: this.reviewScheduler.data,
+			syncQueue: this.autoSync ? this.autoSync.getQueue() : this.savedSyncQueue
+		});
+	}
+
 	/**
 	 * Extract highlighted text (text between ==)
 	 */
@@ -752,27 +1582,48 @@ export default class AnkiQuizPlugin extends Plugin {
 
 	/**
 	 * Check for trigger words that indicate definitions or explanations
-	 * Triggers must be at the beginning of a line (allowing for markdown formatting)
+	 * Triggers must be at the beginning of a line (allowing for markdown formatting).
+	 * Returns the trigger lines in document order, with their line index.
 	 */
-	checkForTriggerWords(content: string): string[] {
-		const matches: string[] = [];
+	checkForTriggerWords(content: string, file?: TFile | null): TriggerMatch[] {
+		const matches: TriggerMatch[] = [];
 		const lines = content.split('\n');
+		const protectedLines = this.getProtectedLines(lines, file);
 		
-		for (const line of lines) {
-			for (const triggerWord of this.settings.triggers) {
-				// Pattern to match trigger word at start of line, allowing markdown formatting
-				// Allows: *italic*, **bold**, ***bold-italic***, or plain text at the start
-				const regex = new RegExp(`^(\\*{1,3})?\\s*(${triggerWord})\\s*[:.]\\s*(.+)`, 'i');
-				const match = line.match(regex);
-				if (match) {
-					matches.push(match[0]); // Return the full matched line
-				}
+		lines.forEach((line, lineIndex) => {
+			// Code blocks, frontmatter and comments never hold cards
+			if (!protectedLines.has(lineIndex) && this.isTriggerLine(line)) {
+				matches.push({ line, lineIndex });
 			}
-		}
+		});
 		
 		return matches;
 	}
 
+	/**
+	 * Lines of a note that never hold cards (code, frontmatter, comments), using Obsidian's
+	 * parsed sections of the file when it is given
+	 */
+	getProtectedLines(lines: string[], file?: TFile | null): Set<number> {
+		const sections = file ? this.app.metadataCache.getFileCache(file)?.sections : undefined;
+		return findProtectedLines(lines, sections);
+	}
+
+	/**
+	 * Check whether a single line starts with one of the configured triggers (comments left out)
+	 */
+	isTriggerLine(line: string): boolean {
+		const text = splitComments(this.stripCardId(line)).text;
+		return this.getEnabledTriggers().some(trigger => matchTrigger(text, trigger, this.settings.triggerSeparators) !== null);
+	}
+
+	/**
+	 * Get the triggers that are switched on in settings (pattern triggers only with a valid pattern)
+	 */
+	getEnabledTriggers(): TriggerConfig[] {
+		return this.settings.triggers.filter(trigger => trigger.enabled && isUsableTrigger(trigger));
+	}
+
 	/**
 	 * Generate filename display for cards (HTML for Anki, plain text for Obsidian preview)
 	 */
@@ -791,29 +1642,6 @@ export default class AnkiQuizPlugin extends Plugin {
 		}
 	}
 
-	/**
-	 * Get the most relevant header for a specific line in the content
-	 */
-	getMostRelevantHeader(content: string, targetLine: string): string | null {
-		const lines = content.split('\n');
-		const targetIndex = lines.findIndex(line => line.includes(targetLine));
-		
-		if (targetIndex === -1) return null;
-		
-		// Look backwards from the target line to find the nearest header
-		for (let i = targetIndex - 1; i >= 0; i--) {
-			const line = lines[i].trim();
-			if (line.startsWith('#')) {
-				const match = line.match(/^#{1,6}\s+(.+)$/);
-				if (match) {
-					return match[1]; // Return the header text without # symbols
-				}
-			}
-		}
-		
-		return null;
-	}
-
 	/**
 	 * Generate contextual cloze cards from highlights with filename and header
 	 */
@@ -826,23 +1654,30 @@ export default class AnkiQuizPlugin extends Plugin {
 		// Get filename (plain text for Obsidian preview)
 		const filename = this.generateFilenameDisplay(markdownView.file, false);
 		const contentLines = content.split('\n');
+		let searchFrom = 0;
 		
 		for (const highlight of highlights) {
 			const cleanHighlight = highlight.replace(/==/g, '');
 			
-			// Find the specific line containing this highlight
-			const lineIndex = contentLines.findIndex(line => line.includes(highlight));
+			// Find the specific line containing this highlight; highlights come in document order
+			let lineIndex = contentLines.findIndex((line, index) => index >= searchFrom && line.includes(highlight));
+			if (lineIndex === -1) {
+				lineIndex = contentLines.findIndex(line => line.includes(highlight));
+			}
 			if (lineIndex === -1) continue; // Skip if highlight not found
+			searchFrom = lineIndex;
 			
 			const targetLine = contentLines[lineIndex];
 			
-			// Get the most relevant header for this highlight
-			const relevantHeader = this.getMostRelevantHeader(content, highlight);
+			// Get the heading breadcrumb for this highlight
+			const headingPath = this.getHeadingPath(contentLines, lineIndex);
+			const relevantHeader = headingPath.length > 0 ? headingPath[headingPath.length - 1] : null;
+			const breadcrumb = this.formatBreadcrumb(headingPath);
 			
-			// Build context with filename and header
+			// Build context with filename and breadcrumb
 			let contextString = filename;
-			if (relevantHeader) {
-				contextString += `\n-> ${relevantHeader}`;
+			if (breadcrumb && this.settings.breadcrumb.placement === 'front') {
+				contextString += `\n-> ${breadcrumb}`;
 			}
 			
 			// Create cloze text from only the line containing the highlight
@@ -852,10 +1687,14 @@ export default class AnkiQuizPlugin extends Plugin {
 			const contextualClozeText = `${contextString}\n ${clozeText}`;
 			
 			questions.push({
+				...this.getBreadcrumbFields(breadcrumb, true),
 				type: 'cloze',
 				question: contextualClozeText,
 				answer: cleanHighlight,
-				clozeText: contextualClozeText
+				clozeText: contextualClozeText,
+				sourcePath: markdownView.file?.path,
+				sourceHeading: relevantHeader || undefined,
+				sourceLines: [lineIndex, lineIndex]
 			});
 		}
 		
@@ -870,6 +1709,8 @@ export default class AnkiQuizPlugin extends Plugin {
 		
 		// Get filename (plain text for Obsidian preview)
 		const filename = this.generateFilenameDisplay(markdownView.file, false);
+		const lines = content.split('\n');
+		let searchFrom = 0;
 		
 		for (const match of remNoteMatches) {
 			const parts = match.split('::');
@@ -877,63 +1718,230 @@ export default class AnkiQuizPlugin extends Plugin {
 				const originalQuestion = parts[0].trim();
 				const answer = parts[1].trim();
 				
-				// Get the most relevant header for this Q&A
-				const relevantHeader = this.getMostRelevantHeader(content, match);
+				// Cues are whole lines in document order, so walk forward to find this one's line
+				const lineIndex = lines.indexOf(match, searchFrom);
+				if (lineIndex !== -1) {
+					searchFrom = lineIndex + 1;
+				}
+				
+				// Get the heading breadcrumb for this Q&A
+				const headingPath = lineIndex !== -1 ? this.getHeadingPath(lines, lineIndex) : [];
+				const relevantHeader = headingPath.length > 0 ? headingPath[headingPath.length - 1] : null;
+				const breadcrumb = this.formatBreadcrumb(headingPath);
 				
-				// Build context with filename and header
+				// Build context with filename and breadcrumb
 				let contextString = filename;
-				if (relevantHeader) {
-					contextString += `\n-> ${relevantHeader}`;
+				if (breadcrumb && this.settings.breadcrumb.placement === 'front') {
+					contextString += `\n-> ${breadcrumb}`;
 				}
 				
 				// Add context to the question
 				const contextualQuestion = `${contextString}\n ${originalQuestion}`;
 				
 				questions.push({
+					...this.getBreadcrumbFields(breadcrumb, false),
 					type: 'short-answer',
 					question: contextualQuestion,
-					answer: answer
+					answer: answer,
+					sourcePath: markdownView.file?.path,
+					sourceHeading: relevantHeader || undefined,
+					sourceLines: lineIndex !== -1 ? [lineIndex, lineIndex] : undefined
 				});
 			}
 		}
-		
-		return questions;
+		
+		return questions;
+	}
+
+	/**
+	 * Collect the lines belonging to a trigger line: indented sub-bullets, continuation lines,
+	 * fenced code and tables. Stops at the next sibling bullet, a blank line, a heading or another trigger.
+	 * For a trigger in a blockquote or callout, the block ends with the quote and loses its > markers.
+	 * Comments are left out: lines inside them (from protectedLines) and comments within a line.
+	 * Returns the block text and the index of its last line.
+	 */
+	extractAnswerBlock(lines: string[], triggerIndex: number, protectedLines: Set<number> = new Set()): { text: string; endLine: number } {
+		const indentOf = (line: string) => (line.match(/^[ \t]*/) as RegExpMatchArray)[0].replace(/\t/g, '    ').length;
+		const quoteDepthOf = (line: string) => ((line.match(/^(?:[ \t]*>)*/) as RegExpMatchArray)[0].match(/>/g) || []).length;
+		const quoteDepth = quoteDepthOf(lines[triggerIndex]);
+		const unquote = (line: string) => quoteDepth > 0 ? line.replace(new RegExp(`^(?:[ \\t]*>){${quoteDepth}} ?`), '') : line;
+		const triggerIndent = indentOf(unquote(lines[triggerIndex]));
+		const isListItem = (line: string) => /^([-*+]|\d+[.)])\s/.test(line.trim());
+		const triggerIsListItem = isListItem(unquote(lines[triggerIndex]));
+		const blockLines: string[] = [];
+		let fence: string | null = null;
+		let endLine = triggerIndex;
+
+		for (let i = triggerIndex + 1; i < lines.length; i++) {
+			if (quoteDepthOf(lines[i]) < quoteDepth) {
+				break;
+			}
+			const line = unquote(lines[i]);
+			const trimmed = line.trim();
+
+			// Inside a fenced code block everything is kept until the closing fence
+			if (fence) {
+				blockLines.push(line);
+				endLine = i;
+				if (trimmed.startsWith(fence)) {
+					fence = null;
+				}
+				continue;
+			}
+
+			if (trimmed.length === 0 || /^#{1,6}\s/.test(trimmed) || this.isTriggerLine(line)) {
+				break;
+			}
+
+			const fenceMatch = trimmed.match(/^(`{3,}|~{3,})/);
+			if (fenceMatch) {
+				fence = fenceMatch[1];
+				blockLines.push(line);
+				endLine = i;
+				continue;
+			}
+
+			// Outside the block's own code, protected lines are comments
+			if (protectedLines.has(i)) {
+				endLine = i;
+				continue;
+			}
+
+			// A list item at the trigger's own level (or above) is the next sibling; under a plain trigger line it's the answer
+			if (isListItem(line) && (indentOf(line) < triggerIndent || (indentOf(line) === triggerIndent && triggerIsListItem))) {
+				break;
+			}
+
+			const { text, comments } = splitComments(line);
+			if (comments.length === 0 || text.trim().length > 0) {
+				blockLines.push(text);
+			}
+			endLine = i;
+		}
+
+		// Drop the common indentation so nested lists keep their relative structure
+		const indents = blockLines.filter(line => line.trim().length > 0).map(indentOf);
+		const commonIndent = indents.length > 0 ? Math.min(...indents) : 0;
+
+		const text = blockLines
+			.map(line => line.replace(/\t/g, '    ').substring(commonIndent).replace(/\s+$/, ''))
+			.join('\n')
+			.trim();
+		return { text, endLine };
+	}
+
+	/**
+	 * Headings leading to a line, outermost first. Protected lines (code, comments) never hold headings.
+	 */
+	getHeadingPath(lines: string[], lineIndex: number, protectedLines: Set<number> = findProtectedLines(lines)): string[] {
+		const path: string[] = [];
+		let level = 7;
+		for (let i = lineIndex - 1; i >= 0 && level > 1; i--) {
+			if (protectedLines.has(i)) {
+				continue;
+			}
+			const match = lines[i].trim().match(/^(#{1,6})\s+(.+)$/);
+			if (match && match[1].length < level) {
+				level = match[1].length;
+				path.unshift(match[2]);
+			}
+		}
+		return path;
+	}
+
+	/**
+	 * Heading breadcrumb of a line, shortened to the configured depth (0 for the full path)
+	 */
+	formatBreadcrumb(headingPath: string[], depth: number = this.settings.breadcrumb.depth): string {
+		const { separator } = this.settings.breadcrumb;
+		return (depth > 0 ? headingPath.slice(-depth) : headingPath).join(separator);
+	}
+
+	/**
+	 * Card fields that carry the breadcrumb when it doesn't go on the Front:
+	 * a "-> ..." line at the end of the Back (Extra for cloze cards), or its own note field.
+	 * The Back line is added when the note is built, so the answer itself stays plain.
+	 */
+	getBreadcrumbFields(breadcrumb: string, cloze: boolean): Partial<QuizQuestion> {
+		const { placement, fieldName } = this.settings.breadcrumb;
+		if (!breadcrumb || placement === 'front') {
+			return {};
+		}
+		if (placement === 'field') {
+			return { extraFields: { [fieldName.trim() || 'Breadcrumb']: breadcrumb } };
+		}
+		return cloze ? { explanation: `-> ${breadcrumb}` } : { backBreadcrumb: breadcrumb };
 	}
 
 	/**
-	 * Generate contextual trigger word cards
+	 * Generate contextual trigger word cards, with Front and Back built from the card templates
 	 */
-	generateContextualTriggerCards(triggerMatches: string[], content: string, markdownView: MarkdownView): QuizQuestion[] {
+	generateContextualTriggerCards(triggerMatches: TriggerMatch[], content: string, markdownView: MarkdownView): QuizQuestion[] {
 		const questions: QuizQuestion[] = [];
 		
 		// Get filename and header context
 		const filename = this.generateFilenameDisplay(markdownView.file, false);
+		const frontmatter = markdownView.file ? this.app.metadataCache.getFileCache(markdownView.file)?.frontmatter : undefined;
+		const frontTemplate = this.settings.cardTemplates.front.trim() ? this.settings.cardTemplates.front : DEFAULT_FRONT_TEMPLATE;
+		const backTemplate = this.settings.cardTemplates.back.trim() ? this.settings.cardTemplates.back : DEFAULT_BACK_TEMPLATE;
+		const lines = content.split('\n');
+		const protectedLines = this.getProtectedLines(lines, markdownView.file);
 		
-		for (const match of triggerMatches) {
-			for (const triggerWord of this.settings.triggers) {
-				// Pattern to extract definition from trigger line with optional markdown formatting
-				const regex = new RegExp(`^(\\*{1,3})?\\s*(${triggerWord})\\s*[:.]\\s*(.+)`, 'i');
-				const matchResult = match.match(regex);
+		for (const { line: match, lineIndex } of triggerMatches) {
+			for (const trigger of this.getEnabledTriggers()) {
+				const triggerWord = trigger.name;
+				// Extract the prompt and definition from the trigger line with optional markdown formatting;
+				// comments on the line stay out of the card
+				const matchResult = matchTrigger(splitComments(this.stripCardId(match)).text, trigger, this.settings.triggerSeparators);
 				
 				if (matchResult) {
-					const definition = matchResult[3].trim(); // Extract the definition part
-					
-					// Get the most relevant header for this specific trigger word line
-					const relevantHeader = this.getMostRelevantHeader(content, match);
-					
-					// Build context with filename and header
-					let contextString = filename + `\n`;
-					if (relevantHeader) {
-						contextString += `\n-> ${relevantHeader}`;
+					const cardId = this.extractCardId(match);
+					let definition = matchResult.back; // Extract the definition part
+					let endLine = lineIndex;
+
+					// Block mode: include the content nested under the trigger line
+					if (trigger.answerMode === 'block') {
+						const block = this.extractAnswerBlock(lines, lineIndex, protectedLines);
+						if (block.text) {
+							definition += '\n' + block.text;
+							endLine = block.endLine;
+						}
 					}
 					
-					// Create enhanced question with context
-					const contextualQuestion = `${contextString}\n\n${triggerWord}`;
+					// Headings leading to this trigger line; the last one is the most relevant
+					const headingPath = this.getHeadingPath(lines, lineIndex, protectedLines);
+					const relevantHeader = headingPath.length > 0 ? headingPath[headingPath.length - 1] : null;
+					const breadcrumb = this.formatBreadcrumb(headingPath);
+					const breadcrumbOnFront = this.settings.breadcrumb.placement === 'front';
+					
+					// Templates get the full path; placement and depth only shape the automatic breadcrumb
+					const context: CardTemplateContext = {
+						file: markdownView.file?.basename || filename.replace(/\.md$/, ''),
+						path: markdownView.file?.path || filename,
+						link: filename,
+						heading: relevantHeader || '',
+						breadcrumb: this.formatBreadcrumb(headingPath, 0),
+						frontBreadcrumb: breadcrumbOnFront ? breadcrumb : '',
+						trigger: matchResult.front,
+						// The answer itself is filled in when the note is built, so edits to it keep the template
+						content: '{{content}}',
+						frontmatter
+					};
+					const back = renderCardTemplate(backTemplate, context);
 					
 					questions.push({
+						...this.getBreadcrumbFields(breadcrumb, false),
 						type: 'short-answer',
-						question: contextualQuestion,
-						answer: definition
+						question: renderCardTemplate(frontTemplate, { ...context, content: definition }),
+						answer: definition,
+						backTemplate: back.trim() !== '{{content}}' ? back : undefined,
+						cardId: cardId || undefined,
+						trigger: triggerWord,
+						sourcePath: markdownView.file?.path,
+						sourceHeading: relevantHeader || undefined,
+						sourceLines: [lineIndex, endLine],
+						deck: matchResult.deck,
+						tags: matchResult.tags
 					});
 					break;
 				}
@@ -1201,8 +2209,9 @@ class AnkiQuizSettingTab extends PluginSettingTab {
 				.addOption('txt', 'Text (.txt)')
 				.addOption('csv', 'CSV (.csv)')
 				.addOption('ankiconnect', 'Direct to Anki (AnkiConnect)')
+				.addOption('apkg', 'Anki package (.apkg)')
 				.setValue(this.plugin.settings.exportFormat)
-				.onChange(async (value: 'txt' | 'csv' | 'ankiconnect') => {
+				.onChange(async (value: 'txt' | 'csv' | 'ankiconnect' | 'apkg') => {
 					this.plugin.settings.exportFormat = value;
 					await this.plugin.saveSettings();
 				}));
@@ -1301,7 +2310,7 @@ class AnkiQuizSettingTab extends PluginSettingTab {
 		// Existing note behavior
 		new Setting(containerEl)
 			.setName('Behavior for existing notes')
-			.setDesc('Choose what to do when a note (matched by deck+front) already exists in Anki')
+			.setDesc('Choose what to do when a note (matched by deck+front) already exists in Anki. Notes matched by their card ID always get your edits')
 			.addDropdown(dropdown => dropdown
 				.addOption('skip', 'Skip (do nothing)')
 				.addOption('update', 'Update existing answer')
@@ -1312,18 +2321,404 @@ class AnkiQuizSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Markdown rendering
+		new Setting(containerEl)
+			.setName('Render Markdown')
+			.setDesc('Convert bold, lists, code, tables and LaTeX ($...$, $$...$$) in card text to HTML Anki can display. When off, only line breaks are converted.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.ankiConnect.renderMarkdown !== false)
+				.onChange(async (value) => {
+					this.plugin.settings.ankiConnect.renderMarkdown = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Wikilinks in cards')
+			.setDesc('How [[links]] to other notes appear in Anki')
+			.addDropdown(dropdown => dropdown
+				.addOption('link', 'Link back to Obsidian')
+				.addOption('text', 'Plain text')
+				.setValue(this.plugin.settings.ankiConnect.wikilinkStyle || 'link')
+				.onChange(async (value: 'link' | 'text') => {
+					this.plugin.settings.ankiConnect.wikilinkStyle = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Links back to Obsidian
+		new Setting(containerEl)
+			.setName('Vault name in links')
+			.setDesc('Vault opened by the links on each card. Leave empty to use this vault\'s name.')
+			.addText(text => text
+				.setPlaceholder(this.app.vault.getName())
+				.setValue(this.plugin.settings.ankiConnect.vaultName || '')
+				.onChange(async (value) => {
+					this.plugin.settings.ankiConnect.vaultName = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Link format')
+			.setDesc('Links jump to the card\'s block ID, or to its heading when the line has no ID. Advanced URI requires the Advanced URI plugin.')
+			.addDropdown(dropdown => dropdown
+				.addOption('obsidian', 'obsidian://open')
+				.addOption('advanced-uri', 'Advanced URI')
+				.setValue(this.plugin.settings.ankiConnect.linkFormat || 'obsidian')
+				.onChange(async (value: 'obsidian' | 'advanced-uri') => {
+					this.plugin.settings.ankiConnect.linkFormat = value;
+					await this.plugin.saveSettings();
+				}));
+
 		containerEl.createEl('h3', { text: 'Content Processing Settings' });
 
+		// Deck naming
+		const deckTemplateSetting = new Setting(containerEl)
+			.setName('Deck Template')
+			.setDesc('Deck for trigger cards without a deck of their own. Placeholders: {{folder}}, {{folder:2}} (last 2 folders), {{file}}, {{trigger}}, {{heading}} and any frontmatter field like {{course}}. Use :: for subdecks.');
+		const deckPreviewEl = deckTemplateSetting.descEl.createEl('div');
+		deckPreviewEl.style.marginTop = '4px';
+		deckPreviewEl.style.color = 'var(--text-accent)';
+		const updateDeckPreview = () => {
+			deckPreviewEl.setText(`Preview: ${this.getDeckTemplatePreview()}`);
+		};
+		deckTemplateSetting.addText(text => text
+			.setPlaceholder('{{trigger}}')
+			.setValue(this.plugin.settings.deckTemplate)
+			.onChange(async (value) => {
+				this.plugin.settings.deckTemplate = value;
+				updateDeckPreview();
+				await this.plugin.saveSettings();
+			}));
+		updateDeckPreview();
+
+		// Card templates
+		const cardTemplates = this.plugin.settings.cardTemplates;
+		const templatePreviewEl = createDiv();
+		const updateTemplatePreview = async () => {
+			const preview = await this.plugin.previewCardTemplates();
+			templatePreviewEl.empty();
+			if (!preview) {
+				templatePreviewEl.setText('Open a note with a trigger to preview the templates');
+				return;
+			}
+			templatePreviewEl.createEl('div', { text: 'Front' }).style.fontWeight = 'bold';
+			templatePreviewEl.createEl('div', { text: preview.front });
+			templatePreviewEl.createEl('div', { text: 'Back' }).style.fontWeight = 'bold';
+			templatePreviewEl.createEl('div', { text: preview.back });
+		};
+
+		new Setting(containerEl)
+			.setName('Card Front Template')
+			.setDesc('Front of trigger cards. Variables: {{file}}, {{path}}, {{link}} (file name, a link to the note when it starts a line), {{heading}}, {{breadcrumb}} (all headings above the card), {{frontBreadcrumb}} (the breadcrumb when it goes on the Front, as set below), {{trigger}}, {{content}} and {{frontmatter.x}}. {{#if heading}}...{{/if}} keeps text only when the value isn\'t empty.')
+			.addTextArea(text => text
+				.setPlaceholder(DEFAULT_FRONT_TEMPLATE)
+				.setValue(cardTemplates.front)
+				.onChange(async (value) => {
+					cardTemplates.front = value;
+					await this.plugin.saveSettings();
+					await updateTemplatePreview();
+				}));
+
+		new Setting(containerEl)
+			.setName('Card Back Template')
+			.setDesc('Back of trigger cards, with the same variables. Answers edited in Anki are only written back to the note when this is just {{content}}.')
+			.addTextArea(text => text
+				.setPlaceholder(DEFAULT_BACK_TEMPLATE)
+				.setValue(cardTemplates.back)
+				.onChange(async (value) => {
+					cardTemplates.back = value;
+					await this.plugin.saveSettings();
+					await updateTemplatePreview();
+				}));
+
+		containerEl.appendChild(templatePreviewEl);
+		templatePreviewEl.style.whiteSpace = 'pre-wrap';
+		templatePreviewEl.style.background = 'var(--background-secondary)';
+		templatePreviewEl.style.padding = '10px';
+		templatePreviewEl.style.borderRadius = '5px';
+		templatePreviewEl.style.marginBottom = '20px';
+		updateTemplatePreview();
+
+		// Heading breadcrumb
+		const breadcrumb = this.plugin.settings.breadcrumb;
+		new Setting(containerEl)
+			.setName('Breadcrumb Depth')
+			.setDesc('Number of headings shown as card context, counted from the nearest one (0 shows the full path, e.g. Chapter 1 > Vectors > Basis)')
+			.addText(text => text
+				.setPlaceholder('1')
+				.setValue(String(breadcrumb.depth))
+				.onChange(async (value) => {
+					const depth = parseInt(value);
+					if (!isNaN(depth) && depth >= 0) {
+						breadcrumb.depth = depth;
+						await this.plugin.saveSettings();
+						await updateTemplatePreview();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Breadcrumb Separator')
+			.setDesc('Text between the headings of the breadcrumb')
+			.addText(text => text
+				.setPlaceholder(' > ')
+				.setValue(breadcrumb.separator)
+				.onChange(async (value) => {
+					breadcrumb.separator = value;
+					await this.plugin.saveSettings();
+					await updateTemplatePreview();
+				}));
+
+		new Setting(containerEl)
+			.setName('Breadcrumb Placement')
+			.setDesc('Where the breadcrumb goes on the card')
+			.addDropdown(dropdown => dropdown
+				.addOption('front', 'Front, under the file name')
+				.addOption('back', 'End of the Back (Extra for cloze cards)')
+				.addOption('field', 'Separate note field')
+				.setValue(breadcrumb.placement)
+				.onChange(async (value: 'front' | 'back' | 'field') => {
+					breadcrumb.placement = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (breadcrumb.placement === 'field') {
+			new Setting(containerEl)
+				.setName('Breadcrumb Field')
+				.setDesc('Note field for the breadcrumb. The note types you export to need a field with this name.')
+				.addText(text => text
+					.setPlaceholder('Breadcrumb')
+					.setValue(breadcrumb.fieldName)
+					.onChange(async (value) => {
+						breadcrumb.fieldName = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
 		// Triggers
 		new Setting(containerEl)
 			.setName('Triggers')
-			.setDesc('Words that indicate definitions or explanations (one per line)')
+			.setDesc('Words that indicate definitions or explanations. Each trigger has its own deck, note type, fields, tags and card direction.')
+			.addButton(button => button
+				.setButtonText('Add Trigger')
+				.setCta()
+				.onClick(async () => {
+					this.plugin.settings.triggers.push(createTriggerConfig(''));
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Trigger Separators')
+			.setDesc('Space-separated text accepted between a trigger and its answer, e.g. : . — - => ::')
+			.addText(text => text
+				.setPlaceholder(': .')
+				.setValue(this.plugin.settings.triggerSeparators.join(' '))
+				.onChange(async (value) => {
+					this.plugin.settings.triggerSeparators = value.split(/\s+/).filter(separator => separator.length > 0);
+					await this.plugin.saveSettings();
+				}));
+
+		this.plugin.settings.triggers.forEach((trigger, index) => {
+			this.displayTriggerConfig(containerEl, trigger, index);
+		});
+
+		// Highlight cloze cards
+		const highlightCloze = this.plugin.settings.highlightCloze;
+		new Setting(containerEl)
+			.setName('Highlight Cloze Cards')
+			.setDesc('Turn ==highlights== into cloze cards (Cloze note type). Highlights on trigger lines stay part of the trigger card.')
+			.addToggle(toggle => toggle
+				.setValue(highlightCloze.enabled)
+				.onChange(async (value) => {
+					highlightCloze.enabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Highlight grouping')
+			.setDesc('Highlights that share a note become c1, c2, c3... of the same cloze card')
+			.addDropdown(dropdown => dropdown
+				.addOption('line', 'Highlights of one line')
+				.addOption('paragraph', 'Highlights of one paragraph')
+				.setValue(highlightCloze.grouping)
+				.onChange(async (value: 'line' | 'paragraph') => {
+					highlightCloze.grouping = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Highlight deck')
+			.setDesc('Anki deck for highlight cloze cards. Use :: for subdecks.')
+			.addText(text => text
+				.setPlaceholder('Highlights')
+				.setValue(highlightCloze.deck)
+				.onChange(async (value) => {
+					highlightCloze.deck = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Highlight tags')
+			.setDesc('Space-separated Anki tags added to every highlight cloze card')
+			.addText(text => text
+				.setValue(highlightCloze.tags.join(' '))
+				.onChange(async (value) => {
+					highlightCloze.tags = value.split(/\s+/).filter(tag => tag.length > 0);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Highlight folders')
+			.setDesc('Folders whose highlights become cloze cards (one per line). Leave empty to use all folder paths below.')
 			.addTextArea(text => text
-				.setPlaceholder('definition\nexample\nformula\ntheorem')
-				.setValue(this.plugin.settings.triggers.join('\n'))
+				.setPlaceholder('Notes/Lectures')
+				.setValue(highlightCloze.folders.join('\n'))
+				.onChange(async (value) => {
+					highlightCloze.folders = value.split('\n').map(path => path.trim()).filter(path => path.length > 0);
+					await this.plugin.saveSettings();
+				}));
+
+		// Inline cards
+		const inlineCards = this.plugin.settings.inlineCards;
+		new Setting(containerEl)
+			.setName('Inline Cards')
+			.setDesc('Also make cards from "Question::Answer" lines, "Question:::Answer" lines (reversed too), and question lines followed by a "?" line (or "??" for reversed) and the answer lines')
+			.addToggle(toggle => toggle
+				.setValue(inlineCards.enabled)
+				.onChange(async (value) => {
+					inlineCards.enabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Inline card deck')
+			.setDesc('Anki deck for inline cards. Use :: for subdecks.')
+			.addText(text => text
+				.setPlaceholder('Inline')
+				.setValue(inlineCards.deck)
+				.onChange(async (value) => {
+					inlineCards.deck = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Inline card tags')
+			.setDesc('Space-separated Anki tags added to every inline card')
+			.addText(text => text
+				.setValue(inlineCards.tags.join(' '))
+				.onChange(async (value) => {
+					inlineCards.tags = value.split(/\s+/).filter(tag => tag.length > 0);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Skip Dataview fields')
+			.setDesc('"Question::Answer" is also Dataview\'s inline field syntax. Leave "key:: value" lines with a one-word key, and "[key:: value]" or "(key:: value)" fields, alone so they don\'t become cards or get card IDs. Turn off to make cards of them too.')
+			.addToggle(toggle => toggle
+				.setValue(inlineCards.skipDataviewFields)
+				.onChange(async (value) => {
+					inlineCards.skipDataviewFields = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Note frontmatter
+		new Setting(containerEl)
+			.setName('Add Note Tags to Cards')
+			.setDesc('Add the #tags of a note to its cards as Anki tags, with nested tags as Anki hierarchy (topic/sub becomes topic::sub)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.propagateTags)
+				.onChange(async (value) => {
+					this.plugin.settings.propagateTags = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Card IDs
+		new Setting(containerEl)
+			.setName('Write Card IDs')
+			.setDesc('Append a block ID (e.g. ^fc-k3x9q2) to each trigger line so edits update the same Anki note instead of creating a new one. This writes into your notes, so it is off until you turn it on')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.writeCardIds)
+				.onChange(async (value) => {
+					this.plugin.settings.writeCardIds = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Orphan reconciliation
+		new Setting(containerEl)
+			.setName('Review Removed Cards After Export')
+			.setDesc('After exporting all files, list Anki notes whose trigger line no longer exists and offer to delete, suspend or tag them (requires card IDs)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.reconcileAfterExport)
+				.onChange(async (value) => {
+					this.plugin.settings.reconcileAfterExport = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Preview Before Export')
+			.setDesc('Before exporting to Anki, list new, changed (with a field-by-field diff), unchanged and removed cards. Only the checked cards are sent. Background sync never previews.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.previewBeforeExport)
+				.onChange(async (value) => {
+					this.plugin.settings.previewBeforeExport = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Background sync
+		new Setting(containerEl)
+			.setName('Sync on Save')
+			.setDesc('Push the cards of changed files in the configured folders to Anki in the background. Changes are queued while Anki is closed, also across restarts. Card IDs are added to the note you are editing once you switch to another one.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoSync)
+				.onChange(async (value) => {
+					this.plugin.settings.autoSync = value;
+					await this.plugin.saveSettings();
+					this.plugin.autoSync.updateStatusBar();
+				}));
+
+		new Setting(containerEl)
+			.setName('Sync Delay')
+			.setDesc('Seconds to wait after the last change before syncing')
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(String(this.plugin.settings.autoSyncDelay))
+				.onChange(async (value) => {
+					const seconds = parseInt(value, 10);
+					if (!isNaN(seconds) && seconds > 0) {
+						this.plugin.settings.autoSyncDelay = seconds;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		// Anki review stats
+		new Setting(containerEl)
+			.setName('Show Anki Stats Inline')
+			.setDesc('Show ease, lapses and next due date from Anki after each trigger line with a card ID. Leeches are highlighted.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showInlineStats)
 				.onChange(async (value) => {
-					this.plugin.settings.triggers = value.split('\n').filter(word => word.trim().length > 0);
+					this.plugin.settings.showInlineStats = value;
 					await this.plugin.saveSettings();
+					const file = this.app.workspace.getActiveFile();
+					if (value && file) {
+						await this.plugin.refreshCardStats(file);
+					} else {
+						this.plugin.updateStatsDisplays();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Leech Threshold')
+			.setDesc('Number of lapses after which a card is highlighted as a leech')
+			.addText(text => text
+				.setPlaceholder('8')
+				.setValue(String(this.plugin.settings.leechThreshold))
+				.onChange(async (value) => {
+					const lapses = parseInt(value, 10);
+					if (!isNaN(lapses) && lapses > 0) {
+						this.plugin.settings.leechThreshold = lapses;
+						await this.plugin.saveSettings();
+					}
 				}));
 
 		// Folder Paths
@@ -1424,7 +2819,199 @@ class AnkiQuizSettingTab extends PluginSettingTab {
 		// 				new Notice(`❌ Gemini API test failed: ${error.message}`, 8000);
 		// 			}
 		// 		}));
-	}	/**
+	}
+
+	/**
+	 * Deck template filled in for the open note (or a sample note) and the first trigger
+	 */
+	private getDeckTemplatePreview(): string {
+		const activeFile = this.app.workspace.getActiveFile();
+		const file = activeFile?.extension === 'md' ? activeFile : null;
+		const cache = file ? this.app.metadataCache.getFileCache(file) : null;
+		const path = file ? file.path : 'Courses/Linear Algebra/Week 3/Eigenvectors.md';
+		const trigger = this.plugin.settings.triggers[0]?.name || 'key point';
+		const frontmatter = cache?.frontmatter;
+		const heading = file ? cache?.headings?.[0]?.heading : 'Definition';
+
+		return `${renderDeckTemplate(this.plugin.settings.deckTemplate || '{{trigger}}', { path, trigger, heading, frontmatter }) || trigger} (for ${path})`;
+	}
+
+	/**
+	 * Render the editor for a single trigger as a collapsible block
+	 */
+	private displayTriggerConfig(containerEl: HTMLElement, trigger: TriggerConfig, index: number): void {
+		const triggerEl = containerEl.createEl('details', { cls: 'trigger-config' });
+		const summaryEl = triggerEl.createEl('summary', { text: trigger.name || '(new trigger)' });
+		if (!trigger.name) {
+			triggerEl.open = true;
+		}
+
+		const isPattern = trigger.kind === 'regex';
+		const nameSetting = new Setting(triggerEl)
+			.setName(isPattern ? 'Trigger name' : 'Trigger text')
+			.setDesc(isPattern ?
+				'Name of the pattern trigger, used for its trigger:: tag and deck' :
+				'Matched at the start of a line, followed by one of the trigger separators');
+		// "inline" and "highlight" belong to the built-in inline and highlight cards
+		const nameErrorEl = nameSetting.descEl.createEl('div');
+		nameErrorEl.style.marginTop = '4px';
+		nameErrorEl.style.color = 'var(--text-error)';
+		const validateNames = () => {
+			nameErrorEl.setText(validateTriggerNames(trigger) || '');
+		};
+		nameSetting
+			.addText(text => text
+				.setPlaceholder('key point')
+				.setValue(trigger.name)
+				.onChange(async (value) => {
+					trigger.name = value.trim();
+					summaryEl.setText(trigger.name || '(new trigger)');
+					validateNames();
+					await this.plugin.saveSettings();
+				}))
+			.addToggle(toggle => toggle
+				.setTooltip('Enabled')
+				.setValue(trigger.enabled)
+				.onChange(async (value) => {
+					trigger.enabled = value;
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove trigger')
+				.onClick(async () => {
+					this.plugin.settings.triggers.splice(index, 1);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (!isPattern) {
+			new Setting(triggerEl)
+				.setName('Aliases')
+				.setDesc('Comma-separated other spellings (e.g. ex, e.g.). Their cards belong to this trigger, with its deck and tags.')
+				.addText(text => text
+					.setPlaceholder('ex, e.g.')
+					.setValue(trigger.aliases.join(', '))
+					.onChange(async (value) => {
+						trigger.aliases = value.split(',').map(alias => alias.trim()).filter(alias => alias.length > 0);
+						validateNames();
+						await this.plugin.saveSettings();
+					}));
+		}
+		validateNames();
+
+		new Setting(triggerEl)
+			.setName('Match')
+			.setDesc('Match the trigger text, or a regular expression for house styles like "Term — definition"')
+			.addDropdown(dropdown => dropdown
+				.addOption('literal', 'Trigger text')
+				.addOption('regex', 'Regular expression')
+				.setValue(trigger.kind)
+				.onChange(async (value: 'literal' | 'regex') => {
+					trigger.kind = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (isPattern) {
+			const patternSetting = new Setting(triggerEl)
+				.setName('Pattern')
+				.setDesc('Matched against each line. Named groups: (?<back>...) for the answer (required), (?<front>...) for the prompt, (?<deck>...) and (?<tags>...).');
+			const errorEl = patternSetting.descEl.createEl('div');
+			errorEl.style.marginTop = '4px';
+			errorEl.style.color = 'var(--text-error)';
+			const validate = () => {
+				errorEl.setText(validateTriggerPattern(trigger.pattern) || '');
+			};
+			patternSetting.addText(text => text
+				.setPlaceholder('^(?<front>.+?) — (?<back>.+)$')
+				.setValue(trigger.pattern)
+				.onChange(async (value) => {
+					trigger.pattern = value;
+					validate();
+					await this.plugin.saveSettings();
+				}));
+			validate();
+		}
+
+		new Setting(triggerEl)
+			.setName('Deck')
+			.setDesc('Target Anki deck, use :: for subdecks. Placeholders work as in the deck template. Leave empty to use the deck template.')
+			.addText(text => text
+				.setPlaceholder(trigger.name || 'Deck::Subdeck')
+				.setValue(trigger.deck)
+				.onChange(async (value) => {
+					trigger.deck = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(triggerEl)
+			.setName('Note type')
+			.setDesc('Leave empty to use the default note type')
+			.addText(text => text
+				.setPlaceholder(this.plugin.settings.ankiConnect.noteType || 'Basic')
+				.setValue(trigger.noteType)
+				.onChange(async (value) => {
+					trigger.noteType = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(triggerEl)
+			.setName('Field mapping')
+			.setDesc('Anki fields that receive the prompt and the answer')
+			.addText(text => text
+				.setPlaceholder('Front')
+				.setValue(trigger.frontField)
+				.onChange(async (value) => {
+					trigger.frontField = value.trim() || 'Front';
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('Back')
+				.setValue(trigger.backField)
+				.onChange(async (value) => {
+					trigger.backField = value.trim() || 'Back';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(triggerEl)
+			.setName('Extra tags')
+			.setDesc('Space-separated Anki tags added to every card of this trigger')
+			.addText(text => text
+				.setPlaceholder('math linear-algebra')
+				.setValue(trigger.tags.join(' '))
+				.onChange(async (value) => {
+					trigger.tags = value.split(/\s+/).filter(tag => tag.length > 0);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(triggerEl)
+			.setName('Card direction')
+			.setDesc('Reversed uses the "Basic (and reversed card)" note type unless a note type is set')
+			.addDropdown(dropdown => dropdown
+				.addOption('front', 'Prompt → answer')
+				.addOption('back', 'Answer → prompt')
+				.addOption('reversed', 'Both directions')
+				.setValue(trigger.direction)
+				.onChange(async (value: 'front' | 'back' | 'reversed') => {
+					trigger.direction = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(triggerEl)
+			.setName('Answer')
+			.setDesc('Multi-line also captures indented sub-bullets, continuation lines, code blocks and tables below the trigger line')
+			.addDropdown(dropdown => dropdown
+				.addOption('line', 'Rest of the line')
+				.addOption('block', 'Multi-line block')
+				.setValue(trigger.answerMode)
+				.onChange(async (value: 'line' | 'block') => {
+					trigger.answerMode = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	/**
 	 * Load note types from Anki and populate the dropdown
 	 */
 	private async loadNoteTypesForDropdown(dropdown: any) {
@@ -1,5 +1,8 @@
 import { Notice } from 'obsidian';
 import { QuizQuestion } from './gemini-service';
+import { TriggerConfig } from './settings';
+import { renderMarkdownToAnkiHtml } from './markdown-renderer';
+import { ObsidianLinkFormat, buildObsidianUri } from './obsidian-uri';
 
 export interface AnkiConnectSettings {
 	enabled: boolean;
@@ -13,13 +16,81 @@ export interface AnkiConnectSettings {
 	 * - 'create' : always try to create a new note (may be rejected by Anki)
 	 */
 	existingNoteBehavior?: 'skip' | 'update' | 'create';
+	/** Render card text as Markdown (with LaTeX) instead of only converting line breaks */
+	renderMarkdown?: boolean;
+	/** How [[wikilinks]] in card text appear in Anki */
+	wikilinkStyle?: 'link' | 'text';
+	/** Vault name used in links back to Obsidian. Empty uses the name of the open vault */
+	vaultName?: string;
+	/** URI scheme for links back to Obsidian */
+	linkFormat?: ObsidianLinkFormat;
 }
 
+/**
+ * Tag prefix that links an Anki note to the block ID of its source line
+ */
+export const CARD_ID_TAG_PREFIX = 'card-id::';
+
 export interface AnkiNote {
 	deckName: string;
 	modelName: string;
 	fields: Record<string, string>;
 	tags: string[];
+	options?: {
+		allowDuplicate?: boolean;
+	};
+}
+
+/**
+ * A plugin-created note in Anki, identified by its card ID tag
+ */
+export interface TrackedAnkiNote {
+	noteId: number;
+	cardId: string;
+	modelName: string;
+	fields: Record<string, string>;
+	tags: string[];
+	cards: number[];
+}
+
+/**
+ * An Anki note found by the card ID tag of its source line
+ */
+export interface CardIdMatch {
+	noteId: number;
+	existingFields: Record<string, string>;
+	tags: string[];
+	/** The note's cards, with the deck each one is in */
+	cards: AnkiCardInfo[];
+}
+
+/**
+ * Scheduling info of a single Anki card (from cardsInfo)
+ */
+export interface AnkiCardInfo {
+	cardId: number;
+	noteId: number;
+	deckName: string;
+	/** Ease factor in permille (2500 = 250%) */
+	factor: number;
+	/** Interval in days (negative: learning step in seconds) */
+	interval: number;
+	/** -1 suspended, 0 new, 1/3 learning, 2 review */
+	queue: number;
+	due: number;
+	reps: number;
+	lapses: number;
+}
+
+/**
+ * A single review from Anki's revlog (from getReviewsOfCards)
+ */
+export interface AnkiReview {
+	/** Review time in ms */
+	id: number;
+	ease: number;
+	ivl: number;
+	type: number;
 }
 
 export interface AnkiConnectResponse {
@@ -159,9 +230,24 @@ export class AnkiConnectService {
 	}
 
 	/**
-	 * Convert filename patterns to clickable Obsidian links for Anki
+	 * Convert card text to the HTML stored in an Anki field
 	 */
-	private convertFilenameToLink(text: string, vaultName: string): string {
+	private formatFieldHtml(text: string, vaultName: string): string {
+		if (this.settings.renderMarkdown === false) {
+			return this.convertLineBreaksToHtml(text);
+		}
+		return renderMarkdownToAnkiHtml(text, {
+			vaultName,
+			wikilinkStyle: this.settings.wikilinkStyle || 'link',
+			linkFormat: this.settings.linkFormat
+		});
+	}
+
+	/**
+	 * Convert filename patterns to clickable Obsidian links for Anki.
+	 * With the card's source known, the link opens the full path at the card's block or heading.
+	 */
+	private convertFilenameToLink(text: string, vaultName: string, question?: QuizQuestion): string {
 		// Pattern to match filename.md at the start of a line
 		const filenamePattern = /^([^<>\n]+\.md)/gm;
 
@@ -176,10 +262,12 @@ export class AnkiConnectService {
 		};
 
 		return text.replace(filenamePattern, (match, filename) => {
-			// Extract just the basename from filename.md
-			const basename = filename.replace('.md', '');
-			// Create simple URI without header links
-			const obsidianUri = `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodeURIComponent(basename)}`;
+			const obsidianUri = buildObsidianUri({
+				vaultName,
+				file: question?.sourcePath || filename,
+				heading: question?.sourceHeading,
+				blockId: question?.cardId
+			}, this.settings.linkFormat);
 
 			// Display only the obsidian:// link (escaped) to keep the field clean
 			const displayFilename = escapeHtml(filename);
@@ -189,49 +277,63 @@ export class AnkiConnectService {
 	}
 
 	/**
-	 * Convert QuizQuestion to AnkiNote format
+	 * Convert QuizQuestion to AnkiNote format.
+	 * When a trigger config is given, its note type, field mapping and card direction are applied.
 	 */
-	convertQuestionToAnkiNote(question: QuizQuestion, deckName: string, triggerWord?: string, vaultName?: string): AnkiNote {
+	convertQuestionToAnkiNote(question: QuizQuestion, deckName: string, triggerWord?: string, vaultName?: string, trigger?: TriggerConfig): AnkiNote {
 		let fields: Record<string, string>;
 		let modelName: string;
-		let finalDeckName = deckName;
-
-		// Use trigger word as deck name if provided
-		if (triggerWord) {
-			finalDeckName = triggerWord;
-		}
 
 		if (question.type === 'cloze' && question.clozeText) {
 			// Use Cloze note type for cloze deletion cards
 			modelName = 'Cloze';
-			const vault = vaultName || 'My Drive/docs/brain';
-			let clozeTextWithLinks = this.convertFilenameToLink(question.clozeText, vault);
-			clozeTextWithLinks = this.convertLineBreaksToHtml(clozeTextWithLinks);
+			const vault = vaultName ?? this.settings.vaultName ?? '';
+			let clozeTextWithLinks = this.convertFilenameToLink(question.clozeText, vault, question);
+			clozeTextWithLinks = this.formatFieldHtml(clozeTextWithLinks, vault);
 			
 			fields = {
 				'Text': clozeTextWithLinks,
-				'Extra': question.explanation ? this.convertLineBreaksToHtml(question.explanation) : ''
+				'Extra': question.explanation ? this.formatFieldHtml(question.explanation, vault) : ''
 			};
 		} else {
-			// Use Basic note type for Q&A cards
-			modelName = this.settings.noteType || 'Basic';
-			const vault = vaultName || 'My Drive/docs/brain';
-			let questionWithLinks = this.convertFilenameToLink(question.question, vault);
-			questionWithLinks = this.convertLineBreaksToHtml(questionWithLinks);
-			
-			fields = {
-				'Front': questionWithLinks,
-				'Back': this.convertLineBreaksToHtml(question.answer + (question.explanation ? '\n\n' + question.explanation : ''))
-			};
+			// Use Basic note type for Q&A cards, unless the trigger picks its own
+			const direction = trigger?.direction || (question.reversed ? 'reversed' : 'front');
+			modelName = question.noteType || trigger?.noteType ||
+				(direction === 'reversed' ? 'Basic (and reversed card)' : this.settings.noteType || 'Basic');
+			const vault = vaultName ?? this.settings.vaultName ?? '';
+
+			let questionText = question.question;
 
 			// Handle multiple choice questions
 			if (question.type === 'multiple-choice' && question.options) {
-				const optionsText = '\n\nOptions:\n' + question.options.map((opt, i) => 
+				questionText += '\n\nOptions:\n' + question.options.map((opt, i) => 
 					`${String.fromCharCode(65 + i)}. ${opt}`
 				).join('\n');
-				let fullQuestionWithLinks = this.convertFilenameToLink(question.question + optionsText, vault);
-				fields.Front = this.convertLineBreaksToHtml(fullQuestionWithLinks);
 			}
+
+			let front = this.formatFieldHtml(this.convertFilenameToLink(questionText, vault, question), vault);
+			const answerText = question.answer + (question.explanation ? '\n\n' + question.explanation : '');
+			const breadcrumbLine = question.backBreadcrumb ? `\n\n-> ${question.backBreadcrumb}` : '';
+			let back = question.backTemplate ?
+				this.formatFieldHtml(this.convertFilenameToLink(question.backTemplate.split('{{content}}').join(answerText) + breadcrumbLine, vault, question), vault) :
+				this.formatFieldHtml(answerText + breadcrumbLine, vault);
+
+			// 'back' direction asks for the prompt given the answer
+			if (direction === 'back') {
+				[front, back] = [back, front];
+			}
+
+			fields = {
+				[trigger?.frontField || 'Front']: front,
+				[trigger?.backField || 'Back']: back
+			};
+		}
+
+		if (question.extraFields) {
+			const vault = vaultName ?? this.settings.vaultName ?? '';
+			Object.entries(question.extraFields).forEach(([name, value]) => {
+				fields[name] = this.formatFieldHtml(value, vault);
+			});
 		}
 
 		// Add tags based on question type and source
@@ -244,12 +346,24 @@ export class AnkiConnectService {
 			tags.push(`trigger::${triggerWord}`);
 		}
 
+		if (question.cardId) {
+			tags.push(`${CARD_ID_TAG_PREFIX}${question.cardId}`);
+		}
+
+		if (trigger) {
+			tags.push(...trigger.tags);
+		}
+
+		if (question.tags) {
+			tags.push(...question.tags);
+		}
+
 		if (question.type === 'cloze') {
 			tags.push('cloze-deletion');
 		}
 
 		return {
-			deckName: finalDeckName,
+			deckName,
 			modelName,
 			fields,
 			tags
@@ -282,11 +396,13 @@ export class AnkiConnectService {
 							query = `deck:"${note.deckName}" note:"${note.modelName}" Text:"${words}"`;
 						}
 					} else {
-						const frontContent = note.fields['Front'] || '';
+						// The first field holds the front side (named by the trigger's field mapping)
+						const frontField = Object.keys(note.fields)[0] || 'Front';
+						const frontContent = note.fields[frontField] || '';
 						const cleanFront = frontContent.replace(/[^\w\s]/g, ' ').trim();
 						const words = cleanFront.split(/\s+/).filter(w => w.length > 2).slice(0, 3).join(' ');
 						if (words.length > 0) {
-							query = `deck:"${note.deckName}" note:"${note.modelName}" Front:"${words}"`;
+							query = `deck:"${note.deckName}" note:"${note.modelName}" "${frontField}:${words}"`;
 						}
 					}
 
@@ -304,8 +420,9 @@ export class AnkiConnectService {
 							if (note.modelName === 'Cloze') {
 								fieldsObj['Text'] = existingNote.fields?.Text?.value || '';
 							} else {
-								fieldsObj['Front'] = existingNote.fields?.Front?.value || '';
-								fieldsObj['Back'] = existingNote.fields?.Back?.value || '';
+								for (const fieldName of Object.keys(note.fields)) {
+									fieldsObj[fieldName] = existingNote.fields?.[fieldName]?.value || '';
+								}
 							}
 							const id = existingNote.noteId || existingNote.noteId === 0 ? existingNote.noteId : (existingNote.id || null);
 							return { noteId: id, existingFields: fieldsObj };
@@ -322,6 +439,248 @@ export class AnkiConnectService {
 		}
 	}
 
+	/**
+	 * Get every plugin note in Anki that carries a card ID tag, or only the notes of the given card IDs
+	 */
+	async getTrackedNotes(cardIds?: string[]): Promise<TrackedAnkiNote[]> {
+		const cardIdQuery = cardIds
+			? `(${cardIds.map(id => `tag:${CARD_ID_TAG_PREFIX}${id}`).join(' OR ')})`
+			: `tag:${CARD_ID_TAG_PREFIX}*`;
+		if (cardIds && cardIds.length === 0) {
+			return [];
+		}
+		const response = await this.sendRequest('findNotes', { query: `tag:obsidian-plugin ${cardIdQuery}` });
+		if (response.error) {
+			throw new Error(response.error);
+		}
+		const noteIds: number[] = response.result || [];
+		if (noteIds.length === 0) {
+			return [];
+		}
+
+		const notesInfo = await this.sendRequest('notesInfo', { notes: noteIds });
+		if (notesInfo.error) {
+			throw new Error(notesInfo.error);
+		}
+
+		const trackedNotes: TrackedAnkiNote[] = [];
+		for (const info of notesInfo.result || []) {
+			const cardId = this.getCardIdFromTags(info.tags || []);
+			if (!cardId) {
+				continue;
+			}
+			const fieldsObj: Record<string, string> = {};
+			for (const [name, field] of Object.entries(info.fields || {})) {
+				fieldsObj[name] = (field as any)?.value || '';
+			}
+			trackedNotes.push({
+				noteId: info.noteId,
+				cardId,
+				modelName: info.modelName,
+				fields: fieldsObj,
+				tags: info.tags || [],
+				cards: info.cards || []
+			});
+		}
+		return trackedNotes;
+	}
+
+	/**
+	 * Find notes carrying a card ID tag and return them keyed by (lowercased) card ID.
+	 * Card IDs are the primary key for matching; notes without one fall back to findMatchingNotesInfo.
+	 */
+	async findNotesByCardIds(cardIds: string[]): Promise<Record<string, CardIdMatch>> {
+		const found: Record<string, CardIdMatch> = {};
+		if (cardIds.length === 0) {
+			return found;
+		}
+
+		try {
+			// Only the notes of these cards, not every tracked note in the collection
+			const wanted = new Set(cardIds.map(id => id.toLowerCase()));
+			const notes = (await this.getTrackedNotes(Array.from(wanted))).filter(note => wanted.has(note.cardId));
+
+			// Decks are only needed to move cards, so a failed lookup shouldn't unmatch the notes
+			let cards: AnkiCardInfo[] = [];
+			try {
+				cards = await this.getCardsInfo(([] as number[]).concat(...notes.map(note => note.cards)));
+			} catch (error) {
+				console.error('Failed to look up the decks of matched notes:', error);
+			}
+
+			for (const note of notes) {
+				found[note.cardId] = {
+					noteId: note.noteId,
+					existingFields: note.fields,
+					tags: note.tags,
+					cards: cards.filter(card => card.noteId === note.noteId)
+				};
+			}
+		} catch (error) {
+			console.error('Failed to look up notes by card ID:', error);
+		}
+
+		return found;
+	}
+
+	/**
+	 * Get the card ID stored in a note's tags, if any (lowercased, as Anki tags are case-insensitive)
+	 */
+	getCardIdFromTags(tags: string[]): string | null {
+		const tag = tags.find(t => t.toLowerCase().startsWith(CARD_ID_TAG_PREFIX));
+		return tag ? tag.substring(CARD_ID_TAG_PREFIX.length).toLowerCase() : null;
+	}
+
+	/**
+	 * Add tags to existing notes
+	 */
+	async addTags(noteIds: number[], tags: string[]): Promise<boolean> {
+		try {
+			const response = await this.sendRequest('addTags', { notes: noteIds, tags: tags.join(' ') });
+			if (response.error) {
+				throw new Error(response.error);
+			}
+			return true;
+		} catch (error) {
+			console.error('Failed to add tags:', error);
+			return false;
+		}
+	}
+
+	/**
+	 * Move cards to another deck
+	 */
+	async changeDeck(cardIds: number[], deckName: string): Promise<boolean> {
+		try {
+			const response = await this.sendRequest('changeDeck', { cards: cardIds, deck: deckName });
+			if (response.error) {
+				throw new Error(response.error);
+			}
+			return true;
+		} catch (error) {
+			console.error(`Failed to move cards to deck "${deckName}":`, error);
+			return false;
+		}
+	}
+
+	/**
+	 * Remove tags from existing notes
+	 */
+	async removeTags(noteIds: number[], tags: string[]): Promise<boolean> {
+		try {
+			const response = await this.sendRequest('removeTags', { notes: noteIds, tags: tags.join(' ') });
+			if (response.error) {
+				throw new Error(response.error);
+			}
+			return true;
+		} catch (error) {
+			console.error('Failed to remove tags:', error);
+			return false;
+		}
+	}
+
+	/**
+	 * Check whether a file with this exact name is already in Anki's media folder
+	 */
+	async mediaFileExists(filename: string): Promise<boolean> {
+		try {
+			const response = await this.sendRequest('getMediaFilesNames', { pattern: filename });
+			if (response.error) {
+				throw new Error(response.error);
+			}
+			return (response.result || []).includes(filename);
+		} catch (error) {
+			console.error(`Failed to look up media file "${filename}":`, error);
+			return false;
+		}
+	}
+
+	/**
+	 * Upload a file into Anki's media folder
+	 */
+	async storeMediaFile(filename: string, base64Data: string): Promise<boolean> {
+		try {
+			const response = await this.sendRequest('storeMediaFile', { filename, data: base64Data });
+			if (response.error) {
+				throw new Error(response.error);
+			}
+			return true;
+		} catch (error) {
+			console.error(`Failed to store media file "${filename}":`, error);
+			return false;
+		}
+	}
+
+	/**
+	 * Delete notes (and all their cards)
+	 */
+	async deleteNotes(noteIds: number[]): Promise<boolean> {
+		try {
+			const response = await this.sendRequest('deleteNotes', { notes: noteIds });
+			if (response.error) {
+				throw new Error(response.error);
+			}
+			return true;
+		} catch (error) {
+			console.error('Failed to delete notes:', error);
+			return false;
+		}
+	}
+
+	/**
+	 * Suspend cards so they no longer show up in reviews
+	 */
+	async suspendCards(cardIds: number[]): Promise<boolean> {
+		try {
+			const response = await this.sendRequest('suspend', { cards: cardIds });
+			if (response.error) {
+				throw new Error(response.error);
+			}
+			return true;
+		} catch (error) {
+			console.error('Failed to suspend cards:', error);
+			return false;
+		}
+	}
+
+	/**
+	 * Get scheduling info for cards
+	 */
+	async getCardsInfo(cardIds: number[]): Promise<AnkiCardInfo[]> {
+		if (cardIds.length === 0) {
+			return [];
+		}
+		const response = await this.sendRequest('cardsInfo', { cards: cardIds });
+		if (response.error) {
+			throw new Error(response.error);
+		}
+		return (response.result || []).map((info: any) => ({
+			cardId: info.cardId,
+			noteId: info.note,
+			deckName: info.deckName,
+			factor: info.factor,
+			interval: info.interval,
+			queue: info.queue,
+			due: info.due,
+			reps: info.reps,
+			lapses: info.lapses
+		}));
+	}
+
+	/**
+	 * Get the review history of cards, keyed by card ID
+	 */
+	async getReviewsOfCards(cardIds: number[]): Promise<Record<string, AnkiReview[]>> {
+		if (cardIds.length === 0) {
+			return {};
+		}
+		const response = await this.sendRequest('getReviewsOfCards', { cards: cardIds.map(String) });
+		if (response.error) {
+			throw new Error(response.error);
+		}
+		return response.result || {};
+	}
+
 	/**
 	 * Update fields for an existing note
 	 */
@@ -459,7 +818,7 @@ export class AnkiConnectService {
 
 				// Convert questions to Anki notes
 				const ankiNotes = triggerQuestions.map(question => 
-					this.convertQuestionToAnkiNote(question, targetDeck, triggerWord === 'other' ? undefined : triggerWord, 'brain')
+					this.convertQuestionToAnkiNote(question, targetDeck, triggerWord === 'other' ? undefined : triggerWord)
 				);
 
 				// Check for duplicates
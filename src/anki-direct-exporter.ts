@@ -1,7 +1,12 @@
-import { Notice } from 'obsidian';
+import { App, Notice, arrayBufferToBase64 } from 'obsidian';
 import { QuizQuestion } from './gemini-service';
-import { AnkiConnectService, AnkiNote } from './anki-connect';
-import { AnkiQuizSettings } from './settings';
+import { AnkiCardInfo, AnkiConnectService, AnkiNote, CARD_ID_TAG_PREFIX, CardIdMatch, TrackedAnkiNote } from './anki-connect';
+import { AnkiQuizSettings, TriggerConfig } from './settings';
+import { AnkiMediaExporter } from './anki-media-exporter';
+import { ExportManifest, NoteSyncState } from './export-manifest';
+import { ankiHtmlToText } from './markdown-renderer';
+import { resolveDeckName } from './deck-template';
+import { findTriggerConfig } from './trigger-matcher';
 
 export interface AnkiExportResult {
 	success: number;
@@ -9,27 +14,134 @@ export interface AnkiExportResult {
 	skipped: number;
 	errors: string[];
 	decksCreated: string[];
+	/**
+	 * Anki note ID for every card that is now in sync (added, updated or already up to date).
+	 * Cards skipped with changes still pending, or left in conflict, are not included.
+	 */
+	noteIds: Map<QuizQuestion, number>;
+	/** Field hashes of the notes that are now in sync, to record in the export manifest */
+	syncStates: Map<number, NoteSyncState>;
+	/** Cards edited both in the vault and in Anki that were left alone */
+	conflicts: number;
+}
+
+/**
+ * How to settle a card edited in Anki since the last sync:
+ * - 'obsidian'       : overwrite Anki with the vault version
+ * - 'anki'           : keep the Anki version
+ * - 'anki-writeback' : keep the Anki version and write its answer back into the trigger line
+ * - 'both'           : detach the Anki note (tagged obsidian-conflict) and add the vault version as a new note
+ */
+export type ConflictResolution = 'obsidian' | 'anki' | 'anki-writeback' | 'both';
+
+export interface AnkiExportOptions {
+	/** Apply changes to existing notes even when the existing-note behavior is 'skip' (confirmed in a preview) */
+	forceUpdate?: boolean;
+	/** Field hashes at the last sync keyed by note ID, for three-way conflict detection */
+	syncStates?: Record<string, NoteSyncState>;
+	/** Chosen resolution for cards edited in Anki */
+	resolutions?: Map<QuizQuestion, ConflictResolution>;
+}
+
+/**
+ * What to do with Anki notes whose trigger line no longer exists in the vault
+ */
+export type OrphanAction = 'delete' | 'suspend' | 'tag';
+
+export const ORPHANED_TAG = 'obsidian-orphaned';
+export const CONFLICT_TAG = 'obsidian-conflict';
+
+/**
+ * A field whose content in Anki differs from what the export would write
+ */
+export interface FieldDiff {
+	field: string;
+	existing: string;
+	incoming: string;
+}
+
+/**
+ * What an export would do with one card
+ */
+export interface ExportPreviewItem {
+	question: QuizQuestion;
+	deckName: string;
+	status: 'new' | 'changed' | 'unchanged' | 'conflict';
+	/** Matched Anki note, null for new cards */
+	noteId: number | null;
+	/** Matched by its card ID, so it follows the vault whatever the existing-note behavior */
+	matchedById?: boolean;
+	/** Fields the export would overwrite (empty for new and unchanged cards) */
+	diffs: FieldDiff[];
+	/** For conflicts: edited only in Anki, or in both the vault and Anki */
+	conflict?: 'anki' | 'both';
+	/** For conflicts on single-line answers: the answer as edited in Anki, as plain text */
+	answerInAnki?: string;
+}
+
+/**
+ * Deck and tag changes that bring an existing note in line with its card. Both can change
+ * without any field changing: a new deck template, a note moved to another folder, frontmatter edits.
+ */
+interface NotePlacementChanges {
+	/** Cards of the note that are in another deck */
+	misplacedCards: AnkiCardInfo[];
+	tagsToAdd: string[];
+	/** Tags the export added before that the card no longer has */
+	tagsToRemove: string[];
+}
+
+/**
+ * Dry run of an export: every card classified, plus notes no longer in the vault
+ */
+export interface ExportPreview {
+	items: ExportPreviewItem[];
+	orphans: TrackedAnkiNote[];
 }
 
 export class AnkiDirectExporter {
 	private ankiConnectService: AnkiConnectService;
 	private settings: AnkiQuizSettings;
+	private app?: App;
+	private mediaExporter: AnkiMediaExporter | null;
+	// Rewrites media embeds like mediaExporter but never uploads, for previews
+	private previewMediaExporter: AnkiMediaExporter | null;
+	// Vault name for links back to Obsidian
+	private vaultName: string;
 
-	constructor(settings: AnkiQuizSettings) {
+	/**
+	 * Pass the app to upload embedded images and audio along with the cards
+	 */
+	constructor(settings: AnkiQuizSettings, app?: App) {
 		this.settings = settings;
+		this.app = app;
 		this.ankiConnectService = new AnkiConnectService(settings.ankiConnect);
+		this.mediaExporter = app ? new AnkiMediaExporter(app, {
+			exists: filename => this.ankiConnectService.mediaFileExists(filename),
+			store: (filename, data) => this.ankiConnectService.storeMediaFile(filename, arrayBufferToBase64(data))
+		}) : null;
+		this.previewMediaExporter = app ? new AnkiMediaExporter(app, {
+			exists: async () => true,
+			store: async () => true
+		}) : null;
+		this.vaultName = settings.ankiConnect.vaultName || app?.vault.getName() || '';
 	}
 
 	/**
-	 * Export questions directly to Anki with smart deck organization
+	 * Export questions directly to Anki with smart deck organization.
+	 * Silent exports (background sync) don't show notices.
+	 * With sync states, cards edited in Anki since the last sync are kept unless resolved otherwise.
 	 */
-	async exportToAnki(questions: QuizQuestion[]): Promise<AnkiExportResult> {
+	async exportToAnki(questions: QuizQuestion[], silent: boolean = false, options: AnkiExportOptions = {}): Promise<AnkiExportResult> {
 		const result: AnkiExportResult = {
 			success: 0,
 			failed: 0,
 			skipped: 0,
 			errors: [],
-			decksCreated: []
+			decksCreated: [],
+			noteIds: new Map(),
+			syncStates: new Map(),
+			conflicts: 0
 		};
 
 		try {
@@ -38,12 +150,12 @@ export class AnkiDirectExporter {
 				throw new Error('AnkiConnect is not available. Please ensure Anki is running with AnkiConnect add-on installed.');
 			}
 
-			// Group questions by trigger word
-			const questionGroups = this.groupQuestionsByTrigger(questions);
+			// Group questions by trigger word and deck
+			const questionGroups = this.groupQuestions(questions);
 			
 			// Process each group
-			for (const [triggerWord, groupQuestions] of Object.entries(questionGroups)) {
-				const deckResult = await this.processQuestionGroup(triggerWord, groupQuestions);
+			for (const { triggerWord, deckName, questions: groupQuestions } of questionGroups) {
+				const deckResult = await this.processQuestionGroup(triggerWord, deckName, groupQuestions, silent, options);
 				
 				// Accumulate results
 				result.success += deckResult.success;
@@ -51,16 +163,23 @@ export class AnkiDirectExporter {
 				result.skipped += deckResult.skipped;
 				result.errors.push(...deckResult.errors);
 				result.decksCreated.push(...deckResult.decksCreated);
+				deckResult.noteIds.forEach((noteId, question) => result.noteIds.set(question, noteId));
+				deckResult.syncStates.forEach((state, noteId) => result.syncStates.set(noteId, state));
+				result.conflicts += deckResult.conflicts;
 			}
 
 			// Show summary
-			this.showExportSummary(result);
+			if (!silent) {
+				this.showExportSummary(result);
+			}
 
 		} catch (error) {
 			console.error('Anki export failed:', error);
 			result.errors.push(error.message);
 			result.failed = questions.length;
-			this.showErrorMessage(error.message);
+			if (!silent) {
+				this.showErrorMessage(error.message);
+			}
 		}
 
 		return result;
@@ -69,20 +188,23 @@ export class AnkiDirectExporter {
 	/**
 	 * Process a group of questions for a specific trigger/deck
 	 */
-	private async processQuestionGroup(triggerWord: string, questions: QuizQuestion[]): Promise<AnkiExportResult> {
+	private async processQuestionGroup(triggerWord: string, deckName: string, questions: QuizQuestion[], silent: boolean, options: AnkiExportOptions): Promise<AnkiExportResult> {
 		const result: AnkiExportResult = {
 			success: 0,
 			failed: 0,
 			skipped: 0,
 			errors: [],
-			decksCreated: []
+			decksCreated: [],
+			noteIds: new Map(),
+			syncStates: new Map(),
+			conflicts: 0
 		};
 
-		const deckName = triggerWord;
+		const trigger = this.findTriggerConfig(triggerWord);
 
 		if (!deckName) {
 			console.warn('No trigger word found for question, skipping');
-			return { success: 0, failed: 0, skipped: 1, errors: ['Question without trigger word'], decksCreated: [] };
+			return { success: 0, failed: 0, skipped: 1, errors: ['Question without trigger word'], decksCreated: [], noteIds: new Map(), syncStates: new Map(), conflicts: 0 };
 		}
 
 		try {
@@ -92,116 +214,191 @@ export class AnkiDirectExporter {
 				result.decksCreated.push(deckName);
 			}
 
-		// Convert questions to Anki notes
-		const ankiNotes = questions.map(question => 
-			this.ankiConnectService.convertQuestionToAnkiNote(
-				question, 
-				deckName, 
-				triggerWord === 'other' ? undefined : triggerWord,
-				'brain' // Using a simplified vault name to avoid URI encoding issues
-			)
-		);
-
-		// Find matching existing notes (if any)
-		const matches = await this.ankiConnectService.findMatchingNotesInfo(ankiNotes);
-
-		const notesToCreate: AnkiNote[] = [];
-		let updatedCount = 0;
-		let skippedCount = 0;
-
-		const behavior = this.settings.ankiConnect.existingNoteBehavior || 'skip';
-
-		for (let i = 0; i < ankiNotes.length; i++) {
-			const note = ankiNotes[i];
-			const match = matches[i];
-			if (match && match.noteId) {
-				const existing = match.existingFields || {};
-				if (behavior === 'create') {
-					// Force create: treat as if no match
-					notesToCreate.push(note);
-					continue;
-				}
-				// For skip or update, decide based on content similarity
-				const differs = (() => {
-					if (note.modelName === 'Cloze') {
-						const existingText = existing['Text'] || '';
-						const newText = note.fields['Text'] || '';
-						return !this.ankiConnectService.isContentSimilar(existingText, newText);
-					} else {
-						const existingFront = existing['Front'] || '';
-						const newFront = note.fields['Front'] || '';
-						const existingBack = existing['Back'] || '';
-						const newBack = note.fields['Back'] || '';
-						return !this.ankiConnectService.isContentSimilar(existingFront, newFront) || !this.ankiConnectService.isContentSimilar(existingBack, newBack);
-					}
-				})();
-
-				if (!differs) {
-					// Identical
-					if (behavior === 'skip') {
-						skippedCount++;
-						continue;
-					} else if (behavior === 'update') {
-						// identical -> no update needed
-						skippedCount++;
+			const ankiNotes = await this.convertQuestions(questions, triggerWord, deckName, trigger, this.mediaExporter);
+			const { idMatches, matches } = await this.findMatches(questions, ankiNotes);
+
+			const notesToCreate: AnkiNote[] = [];
+			const questionsToCreate: QuizQuestion[] = [];
+			const notesToAdopt: Array<{ noteId: number; cardId: string }> = [];
+			const notesToDetach: Array<{ noteId: number; cardId: string }> = [];
+			let updatedCount = 0;
+			let skippedCount = 0;
+
+			const behavior = this.getExistingNoteBehavior(!!options.forceUpdate);
+
+			for (let i = 0; i < ankiNotes.length; i++) {
+				const note = ankiNotes[i];
+				const match = matches[i];
+
+				const idMatch = idMatches[i];
+				if (match && match.noteId && idMatch) {
+					// Card ID match: this is the same card, so never create a second note for it, and vault
+					// edits always reach it ('skip' only protects notes matched by their content)
+					result.noteIds.set(questions[i], match.noteId);
+					const existing = match.existingFields || {};
+					const fieldNames = Object.keys(note.fields);
+					const state = options.syncStates?.[String(match.noteId)];
+					const change = this.detectChange(note, existing, state);
+					const currentState: NoteSyncState = {
+						vault: ExportManifest.hashFields(note.fields),
+						anki: ExportManifest.hashFields(existing, fieldNames),
+						tags: state?.tags
+					};
+					const placement = this.getPlacementChanges(idMatch, note, state);
+					const placementChanged = this.hasPlacementChanges(placement);
+
+					if (change === 'unchanged') {
+						if (!placementChanged) {
+							result.syncStates.set(match.noteId, { ...currentState, tags: note.tags });
+							skippedCount++;
+						} else if (await this.applyPlacementChanges(match.noteId, deckName, placement)) {
+							result.syncStates.set(match.noteId, { ...currentState, tags: note.tags });
+							updatedCount++;
+						} else {
+							result.failed++;
+							result.noteIds.delete(questions[i]);
+							result.errors.push(`Failed to move or retag note ${match.noteId} in ${deckName}`);
+						}
 						continue;
 					}
-				}
 
-				// differs
-				if (behavior === 'update') {
-					// Update only the answer-related fields to avoid clobbering questions/front content
-					let fieldsToUpdate: Record<string, string> = {};
-					if (note.modelName === 'Cloze') {
-						// For cloze, update only the Extra field (explanation/notes)
-						fieldsToUpdate['Extra'] = note.fields['Extra'] || '';
-					} else {
-						// For basic cards, update only the Back field (answer + explanation)
-						fieldsToUpdate['Back'] = note.fields['Back'] || '';
+					if (change === 'anki' || change === 'both') {
+						const resolution = options.resolutions?.get(questions[i]);
+						if (resolution === 'both' && questions[i].cardId) {
+							// Keep the edited note under a conflict tag and add the vault version next to it
+							result.noteIds.delete(questions[i]);
+							notesToDetach.push({ noteId: match.noteId, cardId: questions[i].cardId as string });
+							notesToCreate.push({ ...note, options: { allowDuplicate: true } });
+							questionsToCreate.push(questions[i]);
+							continue;
+						}
+						if (resolution !== 'obsidian') {
+							// Keep Anki's edit. Unresolved edits on both sides stay a conflict until the user picks.
+							if (resolution || change === 'anki') {
+								result.syncStates.set(match.noteId, currentState);
+							} else {
+								// Not in sync, so the card is exported again until the conflict is resolved
+								result.noteIds.delete(questions[i]);
+								result.conflicts++;
+							}
+							skippedCount++;
+							continue;
+						}
 					}
 
-					const success = await this.ankiConnectService.updateNoteFields(match.noteId, fieldsToUpdate);
+					const fieldsToUpdate: Record<string, string> = {};
+					fieldNames.forEach(name => fieldsToUpdate[name] = note.fields[name] || '');
+
+					const success = await this.ankiConnectService.updateNoteFields(match.noteId, fieldsToUpdate) &&
+						await this.applyPlacementChanges(match.noteId, deckName, placement);
 					if (success) {
 						updatedCount++;
+						result.syncStates.set(match.noteId, { vault: currentState.vault, anki: currentState.vault, tags: note.tags });
 					} else {
 						result.failed++;
+						result.noteIds.delete(questions[i]);
 						result.errors.push(`Failed to update note ${match.noteId} in ${deckName}`);
 					}
-				} else if (behavior === 'skip') {
-					// skip even if differs
-					skippedCount++;
+				} else if (match && match.noteId) {
+					const existing = match.existingFields || {};
+					if (behavior === 'create') {
+						// Force create: treat as if no match
+						notesToCreate.push(note);
+						questionsToCreate.push(questions[i]);
+						continue;
+					}
+					result.noteIds.set(questions[i], match.noteId);
+
+					// Content match on a card that has an ID: tag the existing note so future exports match by ID
+					const cardId = questions[i].cardId;
+					if (cardId) {
+						notesToAdopt.push({ noteId: match.noteId, cardId });
+					}
+
+					// For skip or update, decide based on content similarity
+					const differs = this.contentDiffers(note, existing);
+
+					if (!differs) {
+						// Identical
+						if (behavior === 'skip') {
+							skippedCount++;
+							continue;
+						} else if (behavior === 'update') {
+							// identical -> no update needed
+							skippedCount++;
+							continue;
+						}
+					}
+
+					// differs
+					if (behavior === 'update') {
+						const fieldsToUpdate = this.getContentMatchUpdateFields(note);
+
+						const success = await this.ankiConnectService.updateNoteFields(match.noteId, fieldsToUpdate);
+						if (success) {
+							updatedCount++;
+						} else {
+							result.failed++;
+							result.noteIds.delete(questions[i]);
+							result.errors.push(`Failed to update note ${match.noteId} in ${deckName}`);
+						}
+					} else if (behavior === 'skip') {
+						// skip even if differs; the vault changes are still pending
+						result.noteIds.delete(questions[i]);
+						skippedCount++;
+					}
+				} else {
+					// No matching note found, schedule for creation
+					notesToCreate.push(note);
+					questionsToCreate.push(questions[i]);
 				}
-			} else {
-				// No matching note found, schedule for creation
-				notesToCreate.push(note);
 			}
-		}
 
-		if (skippedCount > 0) {
-			result.skipped += skippedCount;
-			console.log(`Skipped ${skippedCount} identical cards in ${deckName}`);
-		}
+			// Card ID tags are unique per note, so add them one note at a time
+			for (const { noteId, cardId } of notesToAdopt) {
+				await this.ankiConnectService.addTags([noteId], [`${CARD_ID_TAG_PREFIX}${cardId}`]);
+			}
 
-		if (updatedCount > 0) {
-			result.success += updatedCount;
-			new Notice(`🔄 Updated ${updatedCount} existing cards in "${deckName}"`);
-		}
+			for (const { noteId, cardId } of notesToDetach) {
+				await this.ankiConnectService.removeTags([noteId], [`${CARD_ID_TAG_PREFIX}${cardId}`]);
+				await this.ankiConnectService.addTags([noteId], [CONFLICT_TAG]);
+			}
 
-		// Add notes that didn't match any existing notes
-		if (notesToCreate.length > 0) {
-			const addResults = await this.ankiConnectService.addNotes(notesToCreate);
-			addResults.forEach((noteId, idx) => {
-				if (noteId === null) {
-					result.failed++;
-					result.errors.push(`Failed to add card in ${deckName}: ${questions[idx]?.question.substring(0, 50)}...`);
-				} else {
-					result.success++;
+			if (skippedCount > 0) {
+				result.skipped += skippedCount;
+				console.log(`Skipped ${skippedCount} identical cards in ${deckName}`);
+			}
+
+			if (result.conflicts > 0 && !silent) {
+				new Notice(`⚠️ ${result.conflicts} cards in "${deckName}" were edited in both Obsidian and Anki and were left alone. Preview the export to resolve them.`);
+			}
+
+			if (updatedCount > 0) {
+				result.success += updatedCount;
+				if (!silent) {
+					new Notice(`🔄 Updated ${updatedCount} existing cards in "${deckName}"`);
 				}
-			});
-		}
+			}
+
+			// Add notes that didn't match any existing notes
+			if (notesToCreate.length > 0) {
+				const addResults = await this.ankiConnectService.addNotes(notesToCreate);
+				addResults.forEach((noteId, idx) => {
+					if (noteId === null) {
+						result.failed++;
+						result.errors.push(`Failed to add card in ${deckName}: ${questionsToCreate[idx]?.question.substring(0, 50)}...`);
+					} else {
+						result.success++;
+						result.noteIds.set(questionsToCreate[idx], noteId);
+						const hash = ExportManifest.hashFields(notesToCreate[idx].fields);
+						result.syncStates.set(noteId, { vault: hash, anki: hash, tags: notesToCreate[idx].tags });
+					}
+				});
+			}
 
 		} catch (error) {
 			console.error(`Error processing ${deckName}:`, error);
+			result.noteIds.clear();
 			result.failed += questions.length;
 			result.errors.push(`Failed to process ${deckName}: ${error.message}`);
 		}
@@ -209,6 +406,307 @@ export class AnkiDirectExporter {
 		return result;
 	}
 
+	/**
+	 * Classify every card as new, changed, unchanged or in conflict without touching Anki.
+	 * Pass the card IDs of the whole vault to also list orphaned notes, and the sync states
+	 * from the export manifest to detect cards edited in Anki.
+	 */
+	async previewExport(questions: QuizQuestion[], vaultCardIds?: string[], syncStates?: Record<string, NoteSyncState>): Promise<ExportPreview> {
+		if (!await this.ankiConnectService.testConnection()) {
+			throw new Error('AnkiConnect is not available. Please ensure Anki is running with AnkiConnect add-on installed.');
+		}
+
+		const items: ExportPreviewItem[] = [];
+		const behavior = this.getExistingNoteBehavior(false);
+
+		for (const { triggerWord, deckName, questions: groupQuestions } of this.groupQuestions(questions)) {
+			const trigger = this.findTriggerConfig(triggerWord);
+			if (!deckName) {
+				continue;
+			}
+
+			const ankiNotes = await this.convertQuestions(groupQuestions, triggerWord, deckName, trigger, this.previewMediaExporter);
+			const { idMatches, matches } = await this.findMatches(groupQuestions, ankiNotes);
+
+			ankiNotes.forEach((note, i) => {
+				const match = matches[i];
+				const existing = match?.existingFields || {};
+				let diffs: FieldDiff[] = [];
+
+				if (!match || !match.noteId || (!idMatches[i] && behavior === 'create')) {
+					items.push({ question: groupQuestions[i], deckName, status: 'new', noteId: null, diffs });
+					return;
+				}
+
+				const idMatch = idMatches[i];
+				if (idMatch) {
+					const state = syncStates?.[String(match.noteId)];
+					const change = this.detectChange(note, existing, state);
+					diffs = change === 'unchanged' ? [] : this.diffFields(existing, note.fields);
+					// Moves to another deck and tag changes count as changes
+					diffs.push(...this.diffPlacement(this.getPlacementChanges(idMatch, note, state), deckName));
+					if (change === 'anki' || change === 'both') {
+						items.push({
+							question: groupQuestions[i],
+							deckName,
+							status: 'conflict',
+							noteId: match.noteId,
+							diffs,
+							conflict: change,
+							answerInAnki: this.getAnswerInAnki(groupQuestions[i], note, existing, trigger)
+						});
+						return;
+					}
+				} else if (this.contentDiffers(note, existing)) {
+					diffs = this.diffFields(existing, this.getContentMatchUpdateFields(note));
+				}
+
+				items.push({
+					question: groupQuestions[i],
+					deckName,
+					status: diffs.length > 0 ? 'changed' : 'unchanged',
+					noteId: match.noteId,
+					matchedById: !!idMatch,
+					diffs
+				});
+			});
+		}
+
+		const orphans = vaultCardIds ? await this.findOrphanedNotes(vaultCardIds) : [];
+		return { items, orphans };
+	}
+
+	/**
+	 * Find plugin notes in Anki whose card ID is no longer produced by the vault
+	 */
+	async findOrphanedNotes(cardIds: string[]): Promise<TrackedAnkiNote[]> {
+		if (!await this.ankiConnectService.testConnection()) {
+			throw new Error('AnkiConnect is not available. Please ensure Anki is running with AnkiConnect add-on installed.');
+		}
+
+		const vaultCardIds = new Set(cardIds.map(id => id.toLowerCase()));
+		const trackedNotes = await this.ankiConnectService.getTrackedNotes();
+
+		return trackedNotes.filter(note => !vaultCardIds.has(note.cardId));
+	}
+
+	/**
+	 * Delete, suspend or tag orphaned notes
+	 */
+	async resolveOrphanedNotes(notes: TrackedAnkiNote[], action: OrphanAction): Promise<boolean> {
+		if (notes.length === 0) {
+			return true;
+		}
+
+		const noteIds = notes.map(note => note.noteId);
+		switch (action) {
+			case 'delete':
+				return this.ankiConnectService.deleteNotes(noteIds);
+			case 'suspend':
+				return this.ankiConnectService.suspendCards(notes.flatMap(note => note.cards));
+			case 'tag':
+				return this.ankiConnectService.addTags(noteIds, [ORPHANED_TAG]);
+		}
+	}
+
+	/**
+	 * Existing-note behavior for notes matched by content; confirmed previews turn 'skip' into 'update'
+	 */
+	private getExistingNoteBehavior(forceUpdate: boolean): 'skip' | 'update' | 'create' {
+		const behavior = this.settings.ankiConnect.existingNoteBehavior || 'skip';
+		return forceUpdate && behavior === 'skip' ? 'update' : behavior;
+	}
+
+	/**
+	 * Convert questions to Anki notes, rewriting embedded images/audio to Anki's copies
+	 */
+	private async convertQuestions(questions: QuizQuestion[], triggerWord: string, deckName: string, trigger: TriggerConfig | undefined, mediaExporter: AnkiMediaExporter | null): Promise<AnkiNote[]> {
+		const notes: AnkiNote[] = [];
+		for (const question of questions) {
+			const prepared = await this.prepareMedia(question, mediaExporter);
+			notes.push(this.ankiConnectService.convertQuestionToAnkiNote(
+				prepared,
+				deckName,
+				triggerWord === 'other' ? undefined : triggerWord,
+				this.vaultName,
+				trigger
+			));
+		}
+		return notes;
+	}
+
+	/**
+	 * Match by card ID first; only cards without an ID-tagged note fall back to content search
+	 */
+	private async findMatches(questions: QuizQuestion[], ankiNotes: AnkiNote[]): Promise<{
+		idMatches: Array<CardIdMatch | null>;
+		matches: Array<{ noteId: number | null; existingFields: Record<string, string> | null } | null>;
+	}> {
+		const cardIds = questions.map(question => question.cardId).filter((id): id is string => !!id);
+		const notesByCardId = await this.ankiConnectService.findNotesByCardIds(cardIds);
+		const idMatches = questions.map(question =>
+			question.cardId ? notesByCardId[question.cardId.toLowerCase()] || null : null
+		);
+
+		const fallbackIndexes = ankiNotes.map((_, i) => i).filter(i => !idMatches[i]);
+		const fallbackResults = await this.ankiConnectService.findMatchingNotesInfo(fallbackIndexes.map(i => ankiNotes[i]));
+		const matches: Array<{ noteId: number | null; existingFields: Record<string, string> | null } | null> = [...idMatches];
+		fallbackIndexes.forEach((noteIndex, i) => {
+			matches[noteIndex] = fallbackResults[i];
+		});
+
+		return { idMatches, matches };
+	}
+
+	/**
+	 * Deck and tag changes a card-ID matched note needs (deck names and tags are case-insensitive in Anki)
+	 */
+	private getPlacementChanges(match: CardIdMatch, note: AnkiNote, state?: NoteSyncState): NotePlacementChanges {
+		const hasTag = (tags: string[], tag: string) => tags.some(other => other.toLowerCase() === tag.toLowerCase());
+		return {
+			misplacedCards: match.cards.filter(card => card.deckName.toLowerCase() !== note.deckName.toLowerCase()),
+			tagsToAdd: note.tags.filter(tag => !hasTag(match.tags, tag)),
+			// Only tags the export added itself; tags added in Anki are left alone
+			tagsToRemove: (state?.tags || []).filter(tag => !hasTag(note.tags, tag) && hasTag(match.tags, tag))
+		};
+	}
+
+	private hasPlacementChanges(changes: NotePlacementChanges): boolean {
+		return changes.misplacedCards.length > 0 || changes.tagsToAdd.length > 0 || changes.tagsToRemove.length > 0;
+	}
+
+	/**
+	 * Move a note's cards to its deck and bring its tags up to date
+	 */
+	private async applyPlacementChanges(noteId: number, deckName: string, changes: NotePlacementChanges): Promise<boolean> {
+		if (changes.misplacedCards.length > 0 &&
+			!await this.ankiConnectService.changeDeck(changes.misplacedCards.map(card => card.cardId), deckName)) {
+			return false;
+		}
+		if (changes.tagsToAdd.length > 0 && !await this.ankiConnectService.addTags([noteId], changes.tagsToAdd)) {
+			return false;
+		}
+		if (changes.tagsToRemove.length > 0 && !await this.ankiConnectService.removeTags([noteId], changes.tagsToRemove)) {
+			return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Deck and tag changes as preview diffs
+	 */
+	private diffPlacement(changes: NotePlacementChanges, deckName: string): FieldDiff[] {
+		const diffs: FieldDiff[] = [];
+		if (changes.misplacedCards.length > 0) {
+			const decks = Array.from(new Set(changes.misplacedCards.map(card => card.deckName)));
+			diffs.push({ field: 'Deck', existing: decks.join(', '), incoming: deckName });
+		}
+		if (changes.tagsToAdd.length > 0 || changes.tagsToRemove.length > 0) {
+			diffs.push({ field: 'Tags', existing: changes.tagsToRemove.join(' '), incoming: changes.tagsToAdd.join(' ') });
+		}
+		return diffs;
+	}
+
+	/**
+	 * Three-way comparison of a card-ID matched note against its state at the last sync.
+	 * Without a recorded state the vault version wins, as before conflict tracking.
+	 */
+	private detectChange(note: AnkiNote, existing: Record<string, string>, state?: NoteSyncState): 'unchanged' | 'vault' | 'anki' | 'both' {
+		const vaultHash = ExportManifest.hashFields(note.fields);
+		const ankiHash = ExportManifest.hashFields(existing, Object.keys(note.fields));
+		if (vaultHash === ankiHash) {
+			return 'unchanged';
+		}
+		if (!state) {
+			return 'vault';
+		}
+
+		const vaultChanged = vaultHash !== state.vault;
+		const ankiChanged = ankiHash !== state.anki;
+		if (vaultChanged && ankiChanged) return 'both';
+		if (ankiChanged) return 'anki';
+		// Differences already settled in favour of Anki count as unchanged
+		return vaultChanged ? 'vault' : 'unchanged';
+	}
+
+	/**
+	 * The answer as edited in Anki, when it can be written back to a single trigger line
+	 */
+	private getAnswerInAnki(question: QuizQuestion, note: AnkiNote, existing: Record<string, string>, trigger?: TriggerConfig): string | undefined {
+		if (note.modelName === 'Cloze' || !question.cardId || question.explanation || question.backTemplate || question.answer.includes('\n')) {
+			return undefined;
+		}
+
+		const [frontField, backField] = Object.keys(note.fields);
+		let answer = ankiHtmlToText(existing[trigger?.direction === 'back' ? frontField : backField] || '');
+		// The breadcrumb line at the end of the Back isn't part of the answer
+		const breadcrumbLine = question.backBreadcrumb ? `-> ${question.backBreadcrumb}` : '';
+		if (breadcrumbLine && answer.endsWith(breadcrumbLine)) {
+			answer = answer.substring(0, answer.length - breadcrumbLine.length).trim();
+		}
+		return answer && !answer.includes('\n') ? answer : undefined;
+	}
+
+	/**
+	 * Whether a note found by content search differs enough from the new card to update it
+	 */
+	private contentDiffers(note: AnkiNote, existing: Record<string, string>): boolean {
+		if (note.modelName === 'Cloze') {
+			const existingText = existing['Text'] || '';
+			const newText = note.fields['Text'] || '';
+			return !this.ankiConnectService.isContentSimilar(existingText, newText);
+		}
+
+		const [frontField, backField] = Object.keys(note.fields);
+		const existingFront = existing[frontField] || '';
+		const newFront = note.fields[frontField] || '';
+		const existingBack = existing[backField] || '';
+		const newBack = note.fields[backField] || '';
+		return !this.ankiConnectService.isContentSimilar(existingFront, newFront) || !this.ankiConnectService.isContentSimilar(existingBack, newBack);
+	}
+
+	/**
+	 * Fields to update on a note found by content search: only the answer-related
+	 * fields, to avoid clobbering questions/front content
+	 */
+	private getContentMatchUpdateFields(note: AnkiNote): Record<string, string> {
+		const fieldsToUpdate: Record<string, string> = {};
+		if (note.modelName === 'Cloze') {
+			// For cloze, update only the Extra field (explanation/notes)
+			fieldsToUpdate['Extra'] = note.fields['Extra'] || '';
+		} else {
+			// For basic cards, update only the back field (answer + explanation)
+			const backField = Object.keys(note.fields)[1] || 'Back';
+			fieldsToUpdate[backField] = note.fields[backField] || '';
+		}
+		return fieldsToUpdate;
+	}
+
+	private diffFields(existing: Record<string, string>, incoming: Record<string, string>): FieldDiff[] {
+		return Object.keys(incoming)
+			.filter(field => (existing[field] || '') !== (incoming[field] || ''))
+			.map(field => ({ field, existing: existing[field] || '', incoming: incoming[field] || '' }));
+	}
+
+	/**
+	 * Copy of the question with media embeds rewritten to Anki media references
+	 */
+	private async prepareMedia(question: QuizQuestion, mediaExporter: AnkiMediaExporter | null): Promise<QuizQuestion> {
+		const sourcePath = question.sourcePath;
+		if (!mediaExporter || !sourcePath) {
+			return question;
+		}
+
+		const rewrite = (text?: string) => text ? mediaExporter.rewriteEmbeds(text, sourcePath) : Promise.resolve(text);
+		return {
+			...question,
+			question: await rewrite(question.question) || '',
+			answer: await rewrite(question.answer) || '',
+			explanation: await rewrite(question.explanation),
+			clozeText: await rewrite(question.clozeText)
+		};
+	}
+
 	/**
 	 * Ensure deck exists, create if needed
 	 */
@@ -232,25 +730,37 @@ export class AnkiDirectExporter {
 	}
 
 	/**
-	 * Group questions by trigger word for deck organization
+	 * Group questions by trigger word and target deck (the card's own deck, its trigger's, or the deck template)
 	 */
-	private groupQuestionsByTrigger(questions: QuizQuestion[]): Record<string, QuizQuestion[]> {
-		const groups: Record<string, QuizQuestion[]> = {};
+	private groupQuestions(questions: QuizQuestion[]): Array<{ triggerWord: string; deckName: string; questions: QuizQuestion[] }> {
+		const groups = new Map<string, { triggerWord: string; deckName: string; questions: QuizQuestion[] }>();
 		
 		questions.forEach(question => {
-			const triggerWord = this.extractTriggerWord(question);
+			// Aliases share their canonical trigger's group and deck
+			const recorded = question.trigger || this.extractTriggerWord(question);
+			const triggerWord = recorded ? this.findTriggerConfig(recorded)?.name || recorded : null;
 			
 			if (triggerWord) {
-				if (!groups[triggerWord]) {
-					groups[triggerWord] = [];
+				const frontmatter = question.sourcePath ? this.app?.metadataCache.getCache(question.sourcePath)?.frontmatter : undefined;
+				const deckName = resolveDeckName(question, triggerWord, this.settings, frontmatter);
+				const key = `${triggerWord}\n${deckName}`;
+				if (!groups.has(key)) {
+					groups.set(key, { triggerWord, deckName, questions: [] });
 				}
-				groups[triggerWord].push(question);
+				groups.get(key)?.questions.push(question);
 			} else {
 				console.warn('Question without trigger word:', question.question);
 			}
 		});
 		
-		return groups;
+		return Array.from(groups.values());
+	}
+
+	/**
+	 * Look up the settings for a trigger by name or alias
+	 */
+	private findTriggerConfig(triggerWord: string): TriggerConfig | undefined {
+		return findTriggerConfig(this.settings.triggers, triggerWord);
 	}
 
 	/**
@@ -258,7 +768,7 @@ export class AnkiDirectExporter {
 	 */
 	private extractTriggerWord(question: QuizQuestion): string | null {
 		// Use the configured triggers from settings
-		const triggerWords = this.settings.triggers;
+		const triggerWords = this.settings.triggers.map(trigger => trigger.name);
 		
 		const content = (question.question + ' ' + question.answer).toLowerCase();
 		
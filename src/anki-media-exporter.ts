@@ -0,0 +1,131 @@
+import { App, TFile } from 'obsidian';
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'svg', 'webp', 'avif'];
+const SOUND_EXTENSIONS = ['mp3', 'wav', 'm4a', 'ogg', 'flac', '3gp', 'webm', 'mp4', 'ogv', 'mov', 'mkv'];
+
+/**
+ * Where media files end up: Anki's media folder via AnkiConnect, or an .apkg package
+ */
+export interface MediaTarget {
+	exists(filename: string): Promise<boolean>;
+	store(filename: string, data: ArrayBuffer): Promise<boolean>;
+}
+
+/**
+ * Uploads images and audio embedded in card text to Anki's media folder
+ * and rewrites the embeds to Anki's <img src> / [sound:] syntax.
+ *
+ * Media is stored under a name that includes a hash of its content, so
+ * unchanged files are found in Anki and never uploaded twice.
+ */
+export class AnkiMediaExporter {
+	private app: App;
+	private target: MediaTarget;
+	// Vault path + mtime -> Anki filename, for files handled during this export
+	private storedFiles: Map<string, string> = new Map();
+
+	constructor(app: App, target: MediaTarget) {
+		this.app = app;
+		this.target = target;
+	}
+
+	/**
+	 * Replace ![[file]] and ![](file) embeds in the text with Anki media references
+	 */
+	async rewriteEmbeds(text: string, sourcePath: string): Promise<string> {
+		const embedPattern = /!\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]*))?\]\]|!\[([^\]]*)\]\(<?([^)>]+?)>?(?:\s+"[^"]*")?\)/g;
+		const parts: string[] = [];
+		let lastIndex = 0;
+		let match;
+
+		while ((match = embedPattern.exec(text)) !== null) {
+			parts.push(text.substring(lastIndex, match.index));
+			lastIndex = match.index + match[0].length;
+
+			const isWikiEmbed = match[1] !== undefined;
+			const link = (isWikiEmbed ? match[1] : match[4]).trim();
+			const sizeText = (isWikiEmbed ? match[2] : match[3]?.split('|')[1]) || '';
+			const width = sizeText.match(/^\s*(\d+)/)?.[1];
+
+			parts.push(await this.rewriteEmbed(match[0], link, width, sourcePath));
+		}
+		parts.push(text.substring(lastIndex));
+
+		return parts.join('');
+	}
+
+	/**
+	 * Turn a single embed into an Anki media reference, or leave it untouched if it can't be resolved
+	 */
+	private async rewriteEmbed(original: string, link: string, width: string | undefined, sourcePath: string): Promise<string> {
+		const widthAttr = width ? ` width="${width}"` : '';
+
+		// Remote images can be shown by Anki directly
+		if (/^https?:\/\//i.test(link)) {
+			return `<img src="${link}"${widthAttr}>`;
+		}
+
+		let linkPath = link;
+		try {
+			linkPath = decodeURIComponent(link);
+		} catch (error) {
+			// Keep the raw link if it isn't valid URI encoding
+		}
+
+		const file = this.app.metadataCache.getFirstLinkpathDest(linkPath, sourcePath);
+		if (!(file instanceof TFile)) {
+			return original;
+		}
+
+		const extension = file.extension.toLowerCase();
+		const isImage = IMAGE_EXTENSIONS.includes(extension);
+		const isSound = SOUND_EXTENSIONS.includes(extension);
+		if (!isImage && !isSound) {
+			return original;
+		}
+
+		const filename = await this.storeFile(file);
+		if (!filename) {
+			return original;
+		}
+
+		return isImage ? `<img src="${filename}"${widthAttr}>` : `[sound:${filename}]`;
+	}
+
+	/**
+	 * Make sure a vault file is in Anki's media folder and return its Anki filename
+	 */
+	private async storeFile(file: TFile): Promise<string | null> {
+		const cacheKey = `${file.path}:${file.stat.mtime}`;
+		const cached = this.storedFiles.get(cacheKey);
+		if (cached) {
+			return cached;
+		}
+
+		const data = await this.app.vault.readBinary(file);
+		const hash = await this.hashContent(data);
+		const safeName = file.basename.replace(/[^\w.-]+/g, '_');
+		const filename = `${safeName}-${hash}.${file.extension.toLowerCase()}`;
+
+		if (!await this.target.exists(filename)) {
+			const stored = await this.target.store(filename, data);
+			if (!stored) {
+				return null;
+			}
+		}
+
+		this.storedFiles.set(cacheKey, filename);
+		return filename;
+	}
+
+	/**
+	 * Short SHA-256 of the file content
+	 */
+	private async hashContent(data: ArrayBuffer): Promise<string> {
+		const digest = await crypto.subtle.digest('SHA-256', data);
+		return Array.from(new Uint8Array(digest))
+			.slice(0, 8)
+			.map(byte => byte.toString(16).padStart(2, '0'))
+			.join('');
+	}
+}
\ No newline at end of file
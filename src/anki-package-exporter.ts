@@ -0,0 +1,371 @@
+import { App } from 'obsidian';
+import initSqlJs from 'sql.js';
+import sqlWasm from 'sql.js/dist/sql-wasm.wasm';
+import { strToU8, zipSync } from 'fflate';
+import { QuizQuestion } from './gemini-service';
+import { AnkiConnectService, AnkiNote } from './anki-connect';
+import { AnkiMediaExporter } from './anki-media-exporter';
+import { ExportManifest } from './export-manifest';
+import { AnkiQuizSettings, TriggerConfig } from './settings';
+import { resolveDeckName } from './deck-template';
+import { findTriggerConfig } from './trigger-matcher';
+
+// Schema of an Anki 2.1 collection (version 11), which every Anki release can import
+const COLLECTION_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const DEFAULT_DECK_ID = 1;
+
+const DEFAULT_DECK_CONFIG = {
+	id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+	new: { bury: false, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 0], order: 1, perDay: 20 },
+	lapse: { delays: [10], leechAction: 1, leechFails: 8, minInt: 1, mult: 0 },
+	rev: { bury: false, ease4: 1.3, ivlFct: 1, maxIvl: 36500, perDay: 200, hardFactor: 1.2 }
+};
+
+const CARD_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n.cloze { font-weight: bold; color: blue; }';
+
+export interface AnkiPackageResult {
+	data: Uint8Array;
+	notes: number;
+	cards: number;
+	decks: string[];
+	mediaFiles: number;
+}
+
+interface PackageModel {
+	id: number;
+	name: string;
+	fields: string[];
+	isCloze: boolean;
+	reversed: boolean;
+}
+
+let sqlJsPromise: ReturnType<typeof initSqlJs> | null = null;
+
+/**
+ * Builds an .apkg file (SQLite collection + media) in-process, so decks can be
+ * prepared without Anki running. Decks, note types, deck/model IDs and note GUIDs
+ * are derived from stable values so re-importing a package updates existing notes.
+ */
+export class AnkiPackageExporter {
+	private settings: AnkiQuizSettings;
+	private app?: App;
+	private ankiConnectService: AnkiConnectService;
+	// Anki filename -> content of the media bundled into the current package
+	private mediaFiles: Map<string, Uint8Array> = new Map();
+	private vaultName: string;
+
+	/**
+	 * Pass the app to bundle embedded images and audio into the package
+	 */
+	constructor(settings: AnkiQuizSettings, app?: App) {
+		this.settings = settings;
+		this.app = app;
+		// Only used to turn questions into notes; no connection is made
+		this.ankiConnectService = new AnkiConnectService(settings.ankiConnect);
+		this.vaultName = settings.ankiConnect.vaultName || app?.vault.getName() || '';
+	}
+
+	/**
+	 * Build the package for the given questions and have the browser download it
+	 */
+	async downloadPackage(questions: QuizQuestion[], filename: string = 'anki-questions.apkg'): Promise<AnkiPackageResult> {
+		const result = await this.buildPackage(questions);
+
+		const blob = new Blob([result.data], { type: 'application/octet-stream' });
+		const url = URL.createObjectURL(blob);
+		const a = document.createElement('a');
+		a.href = url;
+		a.download = filename;
+		a.click();
+		URL.revokeObjectURL(url);
+
+		return result;
+	}
+
+	/**
+	 * Build the package for the given questions
+	 */
+	async buildPackage(questions: QuizQuestion[]): Promise<AnkiPackageResult> {
+		const SQL = await (sqlJsPromise ??= initSqlJs({ wasmBinary: sqlWasm.buffer as ArrayBuffer }));
+		const db = new SQL.Database();
+
+		this.mediaFiles = new Map();
+		const mediaExporter = this.app ? new AnkiMediaExporter(this.app, {
+			exists: async filename => this.mediaFiles.has(filename),
+			store: async (filename, data) => {
+				this.mediaFiles.set(filename, new Uint8Array(data));
+				return true;
+			}
+		}) : null;
+
+		try {
+			db.run(COLLECTION_SCHEMA);
+
+			const now = Date.now();
+			const nowSeconds = Math.floor(now / 1000);
+			const models: Map<string, PackageModel> = new Map();
+			const decks: Map<string, number> = new Map([['Default', DEFAULT_DECK_ID]]);
+			const usedGuids: Set<string> = new Set();
+			let nextId = now;
+			let cardCount = 0;
+
+			for (const question of questions) {
+				const recorded = question.trigger || this.extractTriggerWord(question);
+				const trigger = recorded ? this.findTriggerConfig(recorded) : undefined;
+				const triggerWord = trigger?.name || recorded;
+				const frontmatter = question.sourcePath ? this.app?.metadataCache.getCache(question.sourcePath)?.frontmatter : undefined;
+				const deckName = resolveDeckName(question, triggerWord || undefined, this.settings, frontmatter);
+
+				const prepared = await this.prepareMedia(question, mediaExporter);
+				const note = this.ankiConnectService.convertQuestionToAnkiNote(prepared, deckName, triggerWord || undefined, this.vaultName, trigger);
+				const model = this.getModel(models, note, trigger);
+				const deckId = this.getDeckId(decks, deckName);
+
+				const noteId = nextId++;
+				const fieldValues = model.fields.map(field => note.fields[field] || '');
+				const sortField = this.stripHtml(fieldValues[0]);
+				const tags = note.tags.map(tag => tag.trim().replace(/\s+/g, '_')).filter(Boolean);
+
+				db.run('INSERT INTO notes VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)', [
+					noteId,
+					this.createGuid(question, note, usedGuids),
+					model.id,
+					nowSeconds,
+					-1,
+					tags.length > 0 ? ` ${tags.join(' ')} ` : '',
+					fieldValues.join('\x1f'),
+					sortField,
+					await this.checksum(sortField),
+					0,
+					''
+				]);
+
+				for (const ord of this.getCardOrdinals(model, fieldValues)) {
+					cardCount++;
+					db.run('INSERT INTO cards VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)', [
+						nextId++, noteId, deckId, ord, nowSeconds, -1, 0, 0, cardCount, 0, 0, 0, 0, 0, 0, 0, 0, ''
+					]);
+				}
+			}
+
+			db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+				nowSeconds,
+				now,
+				now,
+				JSON.stringify({ activeDecks: [DEFAULT_DECK_ID], curDeck: DEFAULT_DECK_ID, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true, curModel: null, nextPos: cardCount + 1, sortType: 'noteFld', sortBackwards: false, addToCur: true }),
+				JSON.stringify(this.buildModelsJson(models, nowSeconds)),
+				JSON.stringify(this.buildDecksJson(decks, nowSeconds)),
+				JSON.stringify({ '1': DEFAULT_DECK_CONFIG }),
+				'{}'
+			]);
+
+			// Media files are stored in the zip as 0, 1, 2... with a name map
+			const archive: Record<string, Uint8Array> = { 'collection.anki2': db.export() };
+			const mediaMap: Record<string, string> = {};
+			Array.from(this.mediaFiles.entries()).forEach(([filename, data], index) => {
+				mediaMap[String(index)] = filename;
+				archive[String(index)] = data;
+			});
+			archive['media'] = strToU8(JSON.stringify(mediaMap));
+
+			return {
+				data: zipSync(archive),
+				notes: questions.length,
+				cards: cardCount,
+				decks: Array.from(decks.keys()).filter(name => decks.get(name) !== DEFAULT_DECK_ID),
+				mediaFiles: this.mediaFiles.size
+			};
+		} finally {
+			db.close();
+		}
+	}
+
+	/**
+	 * Find or create the note type for a note. Note types are keyed by name and fields,
+	 * with an ID derived from both so repeated exports reuse the same note type in Anki.
+	 */
+	private getModel(models: Map<string, PackageModel>, note: AnkiNote, trigger?: TriggerConfig): PackageModel {
+		const fields = Object.keys(note.fields);
+		const isCloze = note.modelName === 'Cloze';
+		const reversed = !isCloze && (trigger?.direction === 'reversed' || note.modelName === 'Basic (and reversed card)');
+		const key = JSON.stringify([note.modelName, fields, reversed]);
+
+		let model = models.get(key);
+		if (!model) {
+			model = { id: this.stableId(key), name: note.modelName, fields, isCloze, reversed };
+			models.set(key, model);
+		}
+		return model;
+	}
+
+	/**
+	 * Deck ID for a deck name, registering parent decks of "A::B" names as well
+	 */
+	private getDeckId(decks: Map<string, number>, deckName: string): number {
+		const parts = deckName.split('::');
+		for (let i = 1; i <= parts.length; i++) {
+			const name = parts.slice(0, i).join('::');
+			if (!decks.has(name)) {
+				decks.set(name, this.stableId(`deck:${name}`));
+			}
+		}
+		return decks.get(deckName) as number;
+	}
+
+	/**
+	 * Card templates that produce a card for this note (cloze numbers for cloze notes)
+	 */
+	private getCardOrdinals(model: PackageModel, fieldValues: string[]): number[] {
+		if (model.isCloze) {
+			const clozeNumbers = new Set<number>();
+			const pattern = /\{\{c(\d+)::/g;
+			let match;
+			while ((match = pattern.exec(fieldValues[0])) !== null) {
+				clozeNumbers.add(Number(match[1]) - 1);
+			}
+			return clozeNumbers.size > 0 ? Array.from(clozeNumbers).sort((a, b) => a - b) : [0];
+		}
+		return model.reversed ? [0, 1] : [0];
+	}
+
+	/**
+	 * GUIDs come from the card ID when the source line has one, otherwise from the
+	 * note's source and prompt, so a re-import matches the notes of earlier imports
+	 */
+	private createGuid(question: QuizQuestion, note: AnkiNote, usedGuids: Set<string>): string {
+		const base = question.cardId
+			? `obsidian-${question.cardId}`
+			: `obsidian-${ExportManifest.hash([question.sourcePath || '', note.deckName, question.question].join('\x1f'))}`;
+
+		let guid = base;
+		for (let i = 2; usedGuids.has(guid); i++) {
+			guid = `${base}-${i}`;
+		}
+		usedGuids.add(guid);
+		return guid;
+	}
+
+	private buildModelsJson(models: Map<string, PackageModel>, mod: number): Record<string, any> {
+		const result: Record<string, any> = {};
+
+		for (const model of models.values()) {
+			const [first, second] = model.fields;
+			let templates: Array<{ name: string; qfmt: string; afmt: string }>;
+
+			if (model.isCloze) {
+				templates = [{ name: 'Cloze', qfmt: `{{cloze:${first}}}`, afmt: `{{cloze:${first}}}<br>\n{{${second}}}` }];
+			} else {
+				templates = [{ name: 'Card 1', qfmt: `{{${first}}}`, afmt: `{{FrontSide}}\n\n<hr id=answer>\n\n{{${second}}}` }];
+				if (model.reversed) {
+					templates.push({ name: 'Card 2', qfmt: `{{${second}}}`, afmt: `{{FrontSide}}\n\n<hr id=answer>\n\n{{${first}}}` });
+				}
+			}
+
+			result[String(model.id)] = {
+				id: model.id,
+				name: model.name,
+				type: model.isCloze ? 1 : 0,
+				mod,
+				usn: -1,
+				sortf: 0,
+				did: DEFAULT_DECK_ID,
+				tmpls: templates.map((template, ord) => ({ ...template, ord, did: null, bqfmt: '', bafmt: '' })),
+				flds: model.fields.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+				css: CARD_CSS,
+				latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+				latexPost: '\\end{document}',
+				latexsvg: false,
+				req: model.isCloze ? undefined : templates.map((_template, ord) => [ord, 'any', [ord]]),
+				tags: [],
+				vers: []
+			};
+		}
+
+		return result;
+	}
+
+	private buildDecksJson(decks: Map<string, number>, mod: number): Record<string, any> {
+		const result: Record<string, any> = {};
+
+		decks.forEach((id, name) => {
+			result[String(id)] = {
+				id, name, mod, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+				extendNew: 0, extendRev: 0,
+				newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0]
+			};
+		});
+
+		return result;
+	}
+
+	/**
+	 * Bundle embedded media into the package and point the card text at it
+	 */
+	private async prepareMedia(question: QuizQuestion, mediaExporter: AnkiMediaExporter | null): Promise<QuizQuestion> {
+		const sourcePath = question.sourcePath;
+		if (!mediaExporter || !sourcePath) {
+			return question;
+		}
+
+		const rewrite = (text?: string) => text ? mediaExporter.rewriteEmbeds(text, sourcePath) : Promise.resolve(text);
+		return {
+			...question,
+			question: await rewrite(question.question) || '',
+			answer: await rewrite(question.answer) || '',
+			explanation: await rewrite(question.explanation),
+			clozeText: await rewrite(question.clozeText)
+		};
+	}
+
+	/**
+	 * Look up the settings for a trigger by name or alias
+	 */
+	private findTriggerConfig(triggerWord: string): TriggerConfig | undefined {
+		return findTriggerConfig(this.settings.triggers, triggerWord);
+	}
+
+	/**
+	 * Find the trigger a question was generated from when it isn't recorded on the question
+	 */
+	private extractTriggerWord(question: QuizQuestion): string | null {
+		const content = (question.question + ' ' + question.answer).toLowerCase();
+		const trigger = this.settings.triggers.find(trigger => content.includes(trigger.name.toLowerCase()));
+		return trigger ? trigger.name : null;
+	}
+
+	/**
+	 * Positive ID in Anki's millisecond-timestamp range, derived from a string
+	 */
+	private stableId(key: string): number {
+		return 1500000000000 + parseInt(ExportManifest.hash(key), 16);
+	}
+
+	private stripHtml(html: string): string {
+		return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
+	}
+
+	/**
+	 * Anki's duplicate check checksum: first 8 hex digits of the SHA-1 of the sort field
+	 */
+	private async checksum(text: string): Promise<number> {
+		const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+		const hex = Array.from(new Uint8Array(digest).slice(0, 4))
+			.map(byte => byte.toString(16).padStart(2, '0'))
+			.join('');
+		return parseInt(hex, 16);
+	}
+}
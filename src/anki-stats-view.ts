@@ -0,0 +1,98 @@
+import { ItemView, WorkspaceLeaf, setIcon } from 'obsidian';
+import AnkiQuizPlugin from '../main';
+import { AnkiStatsService } from './anki-stats';
+
+export const VIEW_TYPE_ANKI_STATS = 'anki-card-stats';
+
+/**
+ * Sidebar listing the trigger cards of the active file with their Anki review stats.
+ * Leeches are highlighted so weak definitions stand out.
+ */
+export class AnkiStatsView extends ItemView {
+	private plugin: AnkiQuizPlugin;
+
+	constructor(leaf: WorkspaceLeaf, plugin: AnkiQuizPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_ANKI_STATS;
+	}
+
+	getDisplayText(): string {
+		return 'Anki Card Stats';
+	}
+
+	getIcon(): string {
+		return 'bar-chart-2';
+	}
+
+	async onOpen() {
+		this.render();
+		const file = this.app.workspace.getActiveFile();
+		if (file) {
+			await this.plugin.refreshCardStats(file);
+		}
+	}
+
+	/**
+	 * Redraw from the plugin's stats of the active file
+	 */
+	render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('anki-stats-view');
+
+		const header = container.createEl('div', { cls: 'anki-stats-header' });
+		const fileStats = this.plugin.activeFileStats;
+		header.createEl('strong', { text: fileStats ? fileStats.path.split('/').pop() || fileStats.path : 'No file' });
+
+		const refreshButton = header.createEl('button', { attr: { 'aria-label': 'Refresh' } });
+		setIcon(refreshButton, 'refresh-cw');
+		refreshButton.onclick = async () => {
+			const file = this.app.workspace.getActiveFile();
+			if (file) {
+				await this.plugin.refreshCardStats(file);
+			}
+		};
+
+		if (!fileStats) {
+			container.createEl('p', { text: 'Open a note with trigger cards to see its Anki stats.', cls: 'anki-stats-empty' });
+			return;
+		}
+		if (fileStats.error) {
+			container.createEl('p', { text: fileStats.error, cls: 'anki-stats-empty' });
+			return;
+		}
+		if (fileStats.questions.length === 0) {
+			container.createEl('p', { text: 'No trigger cards in this file.', cls: 'anki-stats-empty' });
+			return;
+		}
+
+		const leeches = fileStats.questions.filter(question => question.cardId && fileStats.stats[question.cardId.toLowerCase()]?.isLeech);
+		if (leeches.length > 0) {
+			container.createEl('p', { text: `🩸 ${leeches.length} leech${leeches.length === 1 ? '' : 'es'} — consider rewriting these cards`, cls: 'anki-stats-leech-summary' });
+		}
+
+		for (const question of fileStats.questions) {
+			const stats = question.cardId ? fileStats.stats[question.cardId.toLowerCase()] : undefined;
+			const item = container.createEl('div', { cls: 'anki-stats-item' });
+			if (stats?.isLeech) {
+				item.addClass('is-leech');
+			}
+
+			item.createEl('div', { text: question.answer.split('\n')[0], cls: 'anki-stats-answer' });
+
+			let summary: string;
+			if (!question.cardId) {
+				summary = 'No card ID — not tracked';
+			} else if (!stats) {
+				summary = 'Not in Anki yet';
+			} else {
+				summary = AnkiStatsService.formatStats(stats) + (stats.isLeech ? ' · leech' : '');
+			}
+			item.createEl('div', { text: `${question.trigger || ''} · ${summary}`, cls: 'anki-stats-summary' });
+		}
+	}
+}
@@ -0,0 +1,127 @@
+import { AnkiConnectService, AnkiReview } from './anki-connect';
+import { QuizQuestion } from './gemini-service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Review statistics of the Anki note created for one trigger card.
+ * For notes with several cards (e.g. reversed), the weakest card is reported.
+ */
+export interface CardStats {
+	/** Card ID (block ID) of the trigger line */
+	cardId: string;
+	noteId: number;
+	/** Ease in percent, null for cards not reviewed yet */
+	ease: number | null;
+	lapses: number;
+	reps: number;
+	/** Next due date, null for new or suspended cards */
+	nextDue: Date | null;
+	lastReview: Date | null;
+	isNew: boolean;
+	suspended: boolean;
+	/** Tagged as leech by Anki or lapsed at least the configured number of times */
+	isLeech: boolean;
+}
+
+/**
+ * Trigger cards of one file with the stats of those found in Anki
+ */
+export interface FileCardStats {
+	path: string;
+	questions: QuizQuestion[];
+	/** Stats keyed by (lowercased) card ID */
+	stats: Record<string, CardStats>;
+	error?: string;
+}
+
+/**
+ * Fetches review statistics from Anki for notes the exporter created,
+ * matched through their card ID tags
+ */
+export class AnkiStatsService {
+	private ankiConnectService: AnkiConnectService;
+
+	constructor(ankiConnectService: AnkiConnectService) {
+		this.ankiConnectService = ankiConnectService;
+	}
+
+	/**
+	 * Stats keyed by (lowercased) card ID. Cards that aren't in Anki are left out.
+	 */
+	async getStats(cardIds: string[], leechThreshold: number): Promise<Record<string, CardStats>> {
+		const stats: Record<string, CardStats> = {};
+		const notes = await this.ankiConnectService.getTrackedNotes(cardIds.map(id => id.toLowerCase()));
+		if (notes.length === 0) {
+			return stats;
+		}
+
+		const ankiCardIds = ([] as number[]).concat(...notes.map(note => note.cards));
+		const cardsInfo = await this.ankiConnectService.getCardsInfo(ankiCardIds);
+		const reviews = await this.ankiConnectService.getReviewsOfCards(ankiCardIds);
+
+		for (const note of notes) {
+			const cards = cardsInfo.filter(info => note.cards.includes(info.cardId));
+			if (cards.length === 0) {
+				continue;
+			}
+
+			const reviewed = cards.filter(card => card.queue !== 0 && card.factor > 0);
+			const dueDates = cards
+				.map(card => this.getNextDue(card.queue, card.interval, card.due, reviews[String(card.cardId)] || []))
+				.filter((date): date is Date => date !== null);
+			const reviewTimes = ([] as number[]).concat(
+				...cards.map(card => (reviews[String(card.cardId)] || []).map(review => review.id))
+			);
+			const lapses = Math.max(...cards.map(card => card.lapses));
+
+			stats[note.cardId] = {
+				cardId: note.cardId,
+				noteId: note.noteId,
+				ease: reviewed.length > 0 ? Math.min(...reviewed.map(card => card.factor)) / 10 : null,
+				lapses,
+				reps: Math.max(...cards.map(card => card.reps)),
+				nextDue: dueDates.length > 0 ? new Date(Math.min(...dueDates.map(date => date.getTime()))) : null,
+				lastReview: reviewTimes.length > 0 ? new Date(Math.max(...reviewTimes)) : null,
+				isNew: cards.every(card => card.queue === 0),
+				suspended: cards.every(card => card.queue === -1),
+				isLeech: note.tags.some(tag => tag.toLowerCase() === 'leech') || lapses >= leechThreshold
+			};
+		}
+
+		return stats;
+	}
+
+	/**
+	 * Review cards are due a number of days after their last review; learning cards store a due timestamp
+	 */
+	private getNextDue(queue: number, interval: number, due: number, reviews: AnkiReview[]): Date | null {
+		if (queue === 1) {
+			return new Date(due * 1000);
+		}
+		if ((queue === 2 || queue === 3) && reviews.length > 0) {
+			const lastReview = Math.max(...reviews.map(review => review.id));
+			return new Date(lastReview + Math.max(interval, 0) * DAY_MS);
+		}
+		return null;
+	}
+
+	/**
+	 * One-line summary, e.g. "ease 230% · 2 lapses · due in 4d"
+	 */
+	static formatStats(stats: CardStats): string {
+		if (stats.suspended) return 'suspended';
+		if (stats.isNew) return 'new';
+
+		const parts: string[] = [];
+		if (stats.ease !== null) {
+			parts.push(`ease ${Math.round(stats.ease)}%`);
+		}
+		parts.push(`${stats.lapses} ${stats.lapses === 1 ? 'lapse' : 'lapses'}`);
+		if (stats.nextDue) {
+			const days = Math.ceil((stats.nextDue.getTime() - Date.now()) / DAY_MS);
+			parts.push(days <= 0 ? 'due now' : `due in ${days}d`);
+		}
+		return parts.join(' · ');
+	}
+}
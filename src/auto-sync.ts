@@ -0,0 +1,212 @@
+import { MarkdownView, TAbstractFile, TFile } from 'obsidian';
+import AnkiQuizPlugin from '../main';
+
+// How often queued changes are retried while Anki is unreachable
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Background sync: pushes the cards of changed files to Anki shortly after they are saved.
+ * Changes are queued while Anki is unreachable and flushed once AnkiConnect answers again.
+ * The queue is saved with the plugin data, so it survives restarting Obsidian.
+ */
+export class AutoSync {
+	private plugin: AnkiQuizPlugin;
+	private pending: Set<string>;
+	// Files synced while open in the editor, without card IDs; synced again with IDs once they are left
+	private deferred: Set<string> = new Set();
+	private debounceTimer: number | null = null;
+	private ankiOffline = false;
+	private lastSync: Date | null = null;
+	private statusBarEl: HTMLElement;
+
+	/**
+	 * Pass the queue saved by getQueue to pick up where the last session left off
+	 */
+	constructor(plugin: AnkiQuizPlugin, queue: string[] = []) {
+		this.plugin = plugin;
+		this.pending = new Set(queue);
+		this.statusBarEl = plugin.addStatusBarItem();
+	}
+
+	/**
+	 * Paths still to be synced, for saving with the plugin data
+	 */
+	getQueue(): string[] {
+		return Array.from(new Set([...Array.from(this.pending), ...Array.from(this.deferred)]));
+	}
+
+	/**
+	 * Listen to vault changes and retry queued changes periodically
+	 */
+	register(): void {
+		const { vault, workspace, metadataCache } = this.plugin.app;
+		// 'changed' rather than the vault's 'modify': it comes once the note's frontmatter and tags are re-read,
+		// so anki-deck, anki-tags and #tags edits are seen by the sync
+		this.plugin.registerEvent(metadataCache.on('changed', file => this.onChanged(file)));
+		this.plugin.registerEvent(vault.on('rename', (file, oldPath) => this.onRename(file, oldPath)));
+		this.plugin.registerEvent(vault.on('delete', file => this.onDelete(file)));
+		this.plugin.registerEvent(workspace.on('active-leaf-change', () => this.onActiveLeafChange()));
+
+		// Changes queued in the last session
+		if (this.pending.size > 0) {
+			workspace.onLayoutReady(() => this.schedule());
+		}
+
+		this.plugin.registerInterval(window.setInterval(() => {
+			if (this.pending.size > 0 && this.debounceTimer === null) {
+				this.flush();
+			}
+		}, RETRY_INTERVAL_MS));
+
+		this.updateStatusBar();
+	}
+
+	private isEnabled(): boolean {
+		return this.plugin.settings.autoSync && this.plugin.settings.ankiConnect.enabled;
+	}
+
+	private isTracked(file: TAbstractFile | null): file is TFile {
+		return file instanceof TFile && file.extension === 'md' && this.plugin.isInExportFolders(file.path);
+	}
+
+	/**
+	 * Path of the note open in the active editor, whose content the user may be typing in
+	 */
+	private getEditingPath(): string | null {
+		return this.plugin.app.workspace.getActiveViewOfType(MarkdownView)?.file?.path || null;
+	}
+
+	private async onChanged(file: TAbstractFile) {
+		if (!this.isEnabled() || !this.isTracked(file)) return;
+
+		const queued = this.pending.has(file.path);
+		this.pending.add(file.path);
+		this.schedule();
+		if (!queued) {
+			await this.plugin.savePluginData();
+		}
+	}
+
+	/**
+	 * Sync deferred files again once they are no longer being edited, so they get their card IDs
+	 */
+	private onActiveLeafChange() {
+		const editing = this.getEditingPath();
+		const released = Array.from(this.deferred).filter(path => path !== editing);
+		if (released.length === 0) return;
+
+		released.forEach(path => {
+			this.deferred.delete(path);
+			// The file is unchanged since its last sync, so forget that sync to have it read (and stamped) again
+			this.plugin.exportManifest.remove(path);
+			this.pending.add(path);
+		});
+		this.schedule();
+	}
+
+	private async onRename(file: TAbstractFile, oldPath: string) {
+		if (!this.isEnabled()) return;
+
+		this.pending.delete(oldPath);
+		this.deferred.delete(oldPath);
+		if (this.isTracked(file)) {
+			this.plugin.exportManifest.rename(oldPath, file.path);
+			this.pending.add(file.path);
+			this.schedule();
+		} else {
+			this.plugin.exportManifest.remove(oldPath);
+			this.updateStatusBar();
+		}
+		await this.plugin.savePluginData();
+	}
+
+	private async onDelete(file: TAbstractFile) {
+		if (!this.isEnabled() || !(file instanceof TFile)) return;
+
+		// The file's notes stay in Anki; "Review Anki Cards Removed from Vault" cleans them up
+		this.pending.delete(file.path);
+		this.deferred.delete(file.path);
+		this.plugin.exportManifest.remove(file.path);
+		await this.plugin.savePluginData();
+		this.updateStatusBar();
+	}
+
+	private schedule() {
+		if (this.debounceTimer !== null) {
+			window.clearTimeout(this.debounceTimer);
+		}
+		this.debounceTimer = window.setTimeout(() => {
+			this.debounceTimer = null;
+			this.flush();
+		}, Math.max(1, this.plugin.settings.autoSyncDelay) * 1000);
+		this.updateStatusBar();
+	}
+
+	/**
+	 * Push all queued files to Anki, or keep them queued if Anki can't be reached.
+	 * Card IDs are not written into the note open in the active editor, so the text being typed
+	 * isn't rewritten; that note is synced again with IDs once the user switches away from it.
+	 * While another export to Anki runs, the sync waits and the queue is kept.
+	 */
+	async flush(): Promise<void> {
+		if (this.pending.size === 0 || !this.isEnabled()) return;
+		if (this.plugin.exportInProgress) {
+			this.schedule();
+			return;
+		}
+
+		this.plugin.exportInProgress = true;
+		const paths = Array.from(this.pending);
+
+		try {
+			if (!await this.plugin.ankiConnectService.testConnection()) {
+				this.ankiOffline = true;
+				return;
+			}
+			this.ankiOffline = false;
+			this.pending.clear();
+
+			const files = paths
+				.map(path => this.plugin.app.vault.getAbstractFileByPath(path))
+				.filter((file): file is TFile => this.isTracked(file));
+			const editing = this.plugin.settings.writeCardIds ? this.getEditingPath() : null;
+			const unstamped = files.filter(file => file.path === editing).map(file => file.path);
+			const sync = await this.plugin.syncFilesToAnki(files, true, unstamped);
+
+			// Files without a manifest entry didn't fully make it into Anki; try them again later if cards failed.
+			// Skipped cards and conflicts leave files out of the manifest too, but retrying wouldn't change them.
+			if (sync.result && sync.result.failed > 0) {
+				files.filter(file => !this.plugin.exportManifest.get(file.path))
+					.forEach(file => this.pending.add(file.path));
+			}
+			unstamped.filter(path => !this.pending.has(path))
+				.forEach(path => this.deferred.add(path));
+
+			await this.plugin.savePluginData();
+			this.lastSync = new Date();
+		} catch (error) {
+			console.error('Background Anki sync failed:', error);
+			paths.forEach(path => this.pending.add(path));
+			await this.plugin.savePluginData();
+		} finally {
+			this.plugin.exportInProgress = false;
+			this.updateStatusBar();
+		}
+	}
+
+	/**
+	 * Show pending count and last sync time while background sync is on
+	 */
+	updateStatusBar(): void {
+		this.statusBarEl.toggle(this.isEnabled());
+
+		const parts = [`Anki: ${this.pending.size} pending`];
+		if (this.ankiOffline && this.pending.size > 0) {
+			parts.push('waiting for Anki');
+		}
+		if (this.lastSync) {
+			parts.push(`synced ${this.lastSync.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
+		}
+		this.statusBarEl.setText(parts.join(' · '));
+	}
+}
\ No newline at end of file
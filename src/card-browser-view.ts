@@ -0,0 +1,402 @@
+import { ItemView, Notice, TFile, WorkspaceLeaf } from 'obsidian';
+import AnkiQuizPlugin from '../main';
+import { QuizQuestion } from './gemini-service';
+import { AnkiExporter } from './anki-exporter';
+import { AnkiDirectExporter, AnkiExportResult } from './anki-direct-exporter';
+import { AnkiPackageExporter } from './anki-package-exporter';
+import { ExportSelection } from './export-preview-modal';
+import { ExportManifest } from './export-manifest';
+
+export const VIEW_TYPE_CARD_BROWSER = 'anki-card-browser';
+
+/**
+ * Export state of a card according to the export manifest.
+ * - 'synced' : exported and its file hasn't changed since
+ * - 'pending' : exported, but its file changed since the last export
+ * - 'new' : not exported yet
+ * - 'untracked' : no card ID, so it can't be followed
+ */
+type SyncStatus = 'synced' | 'pending' | 'new' | 'untracked';
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+	synced: '✅ Synced',
+	pending: '🔄 Pending',
+	new: '🆕 New',
+	untracked: '— No ID'
+};
+
+/**
+ * Table of generated cards with search, filters, selection and inline editing
+ * of answers. Export acts on the selected cards.
+ */
+export class CardBrowserView extends ItemView {
+	private plugin: AnkiQuizPlugin;
+	private cards: QuizQuestion[] = [];
+	private selected: Set<QuizQuestion> = new Set();
+	private search = '';
+	private triggerFilter = '';
+	private folderFilter = '';
+	private toolbarEl: HTMLElement;
+	private tableEl: HTMLElement;
+	private footerEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: AnkiQuizPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_CARD_BROWSER;
+	}
+
+	getDisplayText(): string {
+		return 'Card Browser';
+	}
+
+	getIcon(): string {
+		return 'layout-list';
+	}
+
+	async onOpen() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('card-browser');
+
+		this.toolbarEl = container.createEl('div', { cls: 'card-browser-toolbar' });
+		this.tableEl = container.createEl('div', { cls: 'card-browser-table-container' });
+		this.footerEl = container.createEl('div', { cls: 'card-browser-footer' });
+
+		if (this.cards.length === 0) {
+			await this.loadCards();
+		} else {
+			this.render();
+		}
+	}
+
+	/**
+	 * Show the given cards, all selected
+	 */
+	setCards(cards: QuizQuestion[]) {
+		this.cards = cards;
+		this.selected = new Set(cards);
+		this.triggerFilter = '';
+		this.folderFilter = '';
+		if (this.tableEl) {
+			this.render();
+		}
+	}
+
+	/**
+	 * Load the trigger cards of the configured folders, or of the active file if none are configured
+	 */
+	async loadCards() {
+		try {
+			if (this.plugin.settings.folderPaths.length > 0) {
+				const { questions } = await this.plugin.collectFolderTriggerCards();
+				this.setCards(questions);
+			} else {
+				const file = this.app.workspace.getActiveFile();
+				this.setCards(file ? await this.plugin.readTriggerCards(file) : []);
+			}
+		} catch (error) {
+			console.error('Failed to load cards:', error);
+			new Notice(`Failed to load cards: ${error.message}`);
+		}
+	}
+
+	private render() {
+		this.renderToolbar();
+		this.renderTable();
+	}
+
+	private renderToolbar() {
+		const toolbar = this.toolbarEl;
+		toolbar.empty();
+
+		const searchInput = toolbar.createEl('input', { type: 'search', placeholder: 'Search cards...' });
+		searchInput.value = this.search;
+		searchInput.addEventListener('input', () => {
+			this.search = searchInput.value;
+			this.renderTable();
+		});
+
+		const triggers = Array.from(new Set(this.cards.map(card => card.trigger).filter((trigger): trigger is string => !!trigger))).sort();
+		this.createFilter(toolbar, 'All triggers', triggers, this.triggerFilter, value => this.triggerFilter = value);
+
+		const folders = Array.from(new Set(this.cards.map(card => this.getFolder(card)))).sort();
+		this.createFilter(toolbar, 'All folders', folders, this.folderFilter, value => this.folderFilter = value);
+
+		const reloadButton = toolbar.createEl('button', { text: 'Reload' });
+		reloadButton.onclick = () => this.loadCards();
+	}
+
+	private createFilter(parent: HTMLElement, allLabel: string, values: string[], current: string, onChange: (value: string) => void) {
+		const select = parent.createEl('select', { cls: 'dropdown' });
+		select.createEl('option', { text: allLabel, value: '' });
+		values.forEach(value => select.createEl('option', { text: value || '(vault root)', value }));
+		select.value = current;
+		select.addEventListener('change', () => {
+			onChange(select.value);
+			this.renderTable();
+		});
+	}
+
+	private getVisibleCards(): QuizQuestion[] {
+		const search = this.search.trim().toLowerCase();
+		return this.cards.filter(card => {
+			if (this.triggerFilter && card.trigger !== this.triggerFilter) return false;
+			if (this.folderFilter && this.getFolder(card) !== this.folderFilter) return false;
+			if (search) {
+				const text = [card.sourcePath, card.sourceHeading, card.trigger, card.question, card.answer].join(' ').toLowerCase();
+				if (!text.includes(search)) return false;
+			}
+			return true;
+		});
+	}
+
+	private renderTable() {
+		this.tableEl.empty();
+		const visible = this.getVisibleCards();
+
+		if (visible.length === 0) {
+			this.tableEl.createEl('p', { text: this.cards.length === 0 ? 'No cards found.' : 'No cards match the filters.', cls: 'card-browser-empty' });
+			this.renderFooter(visible);
+			return;
+		}
+
+		const table = this.tableEl.createEl('table', { cls: 'card-browser-table' });
+		const headerRow = table.createEl('thead').createEl('tr');
+
+		const selectAll = headerRow.createEl('th').createEl('input', { type: 'checkbox' });
+		selectAll.checked = visible.every(card => this.selected.has(card));
+		selectAll.title = 'Include or exclude all visible cards';
+		selectAll.addEventListener('change', () => {
+			visible.forEach(card => selectAll.checked ? this.selected.add(card) : this.selected.delete(card));
+			this.renderTable();
+		});
+
+		['File', 'Header', 'Trigger', 'Front', 'Back', 'Status'].forEach(title => headerRow.createEl('th', { text: title }));
+
+		const body = table.createEl('tbody');
+		visible.forEach(card => {
+			const row = body.createEl('tr');
+			if (!this.selected.has(card)) {
+				row.addClass('is-excluded');
+			}
+
+			const checkbox = row.createEl('td').createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.selected.has(card);
+			checkbox.addEventListener('change', () => {
+				checkbox.checked ? this.selected.add(card) : this.selected.delete(card);
+				row.toggleClass('is-excluded', !checkbox.checked);
+				this.renderFooter(visible);
+			});
+
+			const fileCell = row.createEl('td', { text: this.getFileName(card), cls: 'card-browser-file' });
+			fileCell.onclick = () => this.openSource(card);
+			row.createEl('td', { text: card.sourceHeading || '' });
+			row.createEl('td', { text: card.trigger || '' });
+			row.createEl('td', { text: this.getFrontText(card), cls: 'card-browser-text' });
+			this.renderAnswerCell(row.createEl('td', { cls: 'card-browser-text' }), card);
+
+			const status = this.getStatus(card);
+			row.createEl('td', { text: STATUS_LABELS[status], cls: `card-browser-status status-${status}` });
+		});
+
+		this.renderFooter(visible);
+	}
+
+	/**
+	 * Answer cell; single-line answers of cards with an ID can be edited by double-clicking
+	 */
+	private renderAnswerCell(cell: HTMLElement, card: QuizQuestion) {
+		cell.empty();
+		cell.setText(card.answer);
+
+		const editable = !!card.cardId && !!card.trigger && card.type !== 'cloze' && !card.answer.includes('\n');
+		if (!editable) {
+			return;
+		}
+
+		cell.addClass('is-editable');
+		cell.title = 'Double-click to edit';
+		cell.ondblclick = () => {
+			cell.empty();
+			const input = cell.createEl('input', { type: 'text', cls: 'card-browser-edit' });
+			input.value = card.answer;
+			input.focus();
+
+			let done = false;
+			const finish = async (save: boolean) => {
+				if (done) return;
+				done = true;
+
+				const newAnswer = input.value.trim();
+				if (save && newAnswer && newAnswer !== card.answer) {
+					if (await this.plugin.updateCardAnswer(card, newAnswer)) {
+						card.answer = newAnswer;
+					} else {
+						new Notice('Could not find the trigger line in the source file');
+					}
+				}
+				this.renderAnswerCell(cell, card);
+			};
+
+			input.addEventListener('keydown', event => {
+				if (event.key === 'Enter') finish(true);
+				if (event.key === 'Escape') finish(false);
+			});
+			input.addEventListener('blur', () => finish(true));
+		};
+	}
+
+	private renderFooter(visible: QuizQuestion[]) {
+		const footer = this.footerEl;
+		footer.empty();
+
+		const selectedCards = this.getSelectedCards();
+		footer.createEl('span', { text: `${selectedCards.length} of ${this.cards.length} selected · ${visible.length} shown` });
+
+		const exportButton = footer.createEl('button', { text: `Export Selected (${this.getFormatLabel()})`, cls: 'mod-cta' });
+		exportButton.disabled = selectedCards.length === 0;
+		exportButton.onclick = () => this.exportSelected();
+	}
+
+	private getSelectedCards(): QuizQuestion[] {
+		return this.cards.filter(card => this.selected.has(card));
+	}
+
+	private getFormatLabel(): string {
+		switch (this.plugin.settings.exportFormat) {
+			case 'ankiconnect': return 'Anki';
+			case 'apkg': return '.apkg';
+			case 'csv': return '.csv';
+			default: return '.txt';
+		}
+	}
+
+	/**
+	 * Export the selected cards with the configured export format
+	 */
+	private async exportSelected() {
+		const cards = this.getSelectedCards();
+		const settings = this.plugin.settings;
+
+		try {
+			if (settings.exportFormat === 'ankiconnect') {
+				if (this.plugin.exportInProgress) {
+					new Notice('An export to Anki is already running. Try again once it has finished.');
+					return;
+				}
+				await this.exportToAnki(cards);
+			} else if (settings.exportFormat === 'apkg') {
+				const result = await new AnkiPackageExporter(settings, this.app).downloadPackage(cards);
+				new Notice(`Exported ${result.notes} notes (${result.cards} cards) to anki-questions.apkg`);
+			} else if (settings.exportFormat === 'csv') {
+				AnkiExporter.downloadFile(AnkiExporter.exportToCsv(cards), 'anki-questions.csv', 'text/csv');
+				new Notice(`Exported ${cards.length} questions to anki-questions.csv`);
+			} else {
+				AnkiExporter.downloadFile(AnkiExporter.exportToTxt(cards), 'anki-questions.txt', 'text/plain');
+				new Notice(`Exported ${cards.length} questions to anki-questions.txt`);
+			}
+		} catch (error) {
+			console.error('Export failed:', error);
+			new Notice(`Export failed: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Export cards through AnkiConnect, previewed first when enabled in settings.
+	 * Holds the plugin's export lock, so a background sync can't add the same notes meanwhile.
+	 */
+	private async exportToAnki(cards: QuizQuestion[]) {
+		const settings = this.plugin.settings;
+		this.plugin.exportInProgress = true;
+
+		try {
+			const exporter = new AnkiDirectExporter(settings, this.app);
+			let selection: ExportSelection | null = null;
+			if (settings.previewBeforeExport) {
+				selection = await this.plugin.previewExport(exporter, cards);
+				if (!selection) {
+					return;
+				}
+			}
+			const exported = selection ? selection.questions : cards;
+			const result = await this.plugin.exportWithSyncStates(exporter, exported, false, selection);
+			await this.recordExportedFiles(exported, result);
+			await this.plugin.savePluginData();
+			this.renderTable();
+		} finally {
+			this.plugin.exportInProgress = false;
+		}
+	}
+
+	/**
+	 * Record the files of exported cards in the export manifest, like a folder export does, so their
+	 * status is up to date. Files with cards left out of the export, or edited since the cards were
+	 * loaded, are left as they were.
+	 */
+	private async recordExportedFiles(exported: QuizQuestion[], result: AnkiExportResult) {
+		const exportedCards = new Set(exported);
+		const paths = new Set(exported.map(card => card.sourcePath).filter((path): path is string => !!path));
+		const files: Array<{ file: TFile; questions: QuizQuestion[]; hash: string }> = [];
+
+		for (const path of Array.from(paths)) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			const questions = this.cards.filter(card => card.sourcePath === path);
+			if (!(file instanceof TFile) || !questions.every(card => exportedCards.has(card))) {
+				continue;
+			}
+			const hash = ExportManifest.hashCards(questions, this.plugin.settings);
+			if (hash === ExportManifest.hashCards(await this.plugin.peekTriggerCards(file), this.plugin.settings)) {
+				files.push({ file, questions, hash });
+			}
+		}
+
+		this.plugin.recordExportedFiles(files, result);
+	}
+
+	private getStatus(card: QuizQuestion): SyncStatus {
+		if (!card.cardId || !card.sourcePath) {
+			return 'untracked';
+		}
+		const entry = this.plugin.exportManifest.get(card.sourcePath);
+		if (!entry || !entry.cardIds.includes(card.cardId)) {
+			return 'new';
+		}
+		const file = this.app.vault.getAbstractFileByPath(card.sourcePath);
+		return file instanceof TFile && file.stat.mtime === entry.mtime ? 'synced' : 'pending';
+	}
+
+	private getFolder(card: QuizQuestion): string {
+		const path = card.sourcePath || '';
+		return path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+	}
+
+	private getFileName(card: QuizQuestion): string {
+		return (card.sourcePath || '').split('/').pop() || '';
+	}
+
+	/**
+	 * Front text without the file and header context lines, which have their own columns
+	 */
+	private getFrontText(card: QuizQuestion): string {
+		const text = card.type === 'cloze' && card.clozeText ? card.clozeText : card.question;
+		const fileName = this.getFileName(card);
+		return text.split('\n')
+			.map(line => line.trim())
+			.filter(line => line && line !== fileName && !line.startsWith('-> '))
+			.join('\n');
+	}
+
+	/**
+	 * Open the card's source file at its trigger line (by block ID, else by line number)
+	 */
+	private async openSource(card: QuizQuestion) {
+		if (!card.sourcePath) return;
+		const subpath = card.cardId ? `#^${card.cardId}` : '';
+		const state = !card.cardId && card.sourceLines ? { eState: { line: card.sourceLines[0] } } : undefined;
+		await this.app.workspace.openLinkText(card.sourcePath + subpath, '', false, state);
+	}
+}
@@ -0,0 +1,76 @@
+import { Extension, RangeSetBuilder, StateEffect } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { AnkiStatsService, CardStats } from './anki-stats';
+
+// Block ID at the end of a trigger line, e.g. " ^fc-k3x9q2"
+const CARD_ID_PATTERN = /\s\^([A-Za-z0-9-]+)\s*$/;
+
+/**
+ * Dispatch to an editor to redraw the stats after the cache changed
+ */
+export const refreshCardStatsEffect = StateEffect.define<null>();
+
+class CardStatsWidget extends WidgetType {
+	private stats: CardStats;
+
+	constructor(stats: CardStats) {
+		super();
+		this.stats = stats;
+	}
+
+	eq(other: CardStatsWidget): boolean {
+		return AnkiStatsService.formatStats(other.stats) === AnkiStatsService.formatStats(this.stats) &&
+			other.stats.isLeech === this.stats.isLeech;
+	}
+
+	toDOM(): HTMLElement {
+		const el = document.createElement('span');
+		el.className = this.stats.isLeech ? 'anki-inline-stats is-leech' : 'anki-inline-stats';
+		el.textContent = AnkiStatsService.formatStats(this.stats) + (this.stats.isLeech ? ' · leech' : '');
+		return el;
+	}
+}
+
+/**
+ * Editor extension showing Anki stats after each trigger line that has a card ID.
+ * Stats come from the plugin's cache; the plugin dispatches refreshCardStatsEffect when it changes.
+ */
+export function cardStatsExtension(getStats: (cardId: string) => CardStats | undefined, isEnabled: () => boolean): Extension {
+	const buildDecorations = (view: EditorView): DecorationSet => {
+		const builder = new RangeSetBuilder<Decoration>();
+		if (!isEnabled()) {
+			return builder.finish();
+		}
+
+		for (const { from, to } of view.visibleRanges) {
+			let pos = from;
+			while (pos <= to) {
+				const line = view.state.doc.lineAt(pos);
+				const cardId = line.text.match(CARD_ID_PATTERN)?.[1];
+				const stats = cardId ? getStats(cardId.toLowerCase()) : undefined;
+				if (stats) {
+					builder.add(line.to, line.to, Decoration.widget({ widget: new CardStatsWidget(stats), side: 1 }));
+				}
+				pos = line.to + 1;
+			}
+		}
+		return builder.finish();
+	};
+
+	return ViewPlugin.fromClass(class {
+		decorations: DecorationSet;
+
+		constructor(view: EditorView) {
+			this.decorations = buildDecorations(view);
+		}
+
+		update(update: ViewUpdate) {
+			const refreshed = update.transactions.some(tr => tr.effects.some(effect => effect.is(refreshCardStatsEffect)));
+			if (update.docChanged || update.viewportChanged || refreshed) {
+				this.decorations = buildDecorations(update.view);
+			}
+		}
+	}, {
+		decorations: plugin => plugin.decorations
+	});
+}
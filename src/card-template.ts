@@ -0,0 +1,71 @@
+/**
+ * Front template that gives the classic trigger card, with the breadcrumb when it goes on the Front:
+ *
+ * ```
+ * Note.md
+ *
+ * -> Chapter > Heading
+ *
+ * trigger
+ * ```
+ */
+export const DEFAULT_FRONT_TEMPLATE = '{{link}}\n{{#if frontBreadcrumb}}\n-> {{frontBreadcrumb}}{{/if}}\n\n{{trigger}}';
+/** Earlier default fronts, replaced by DEFAULT_FRONT_TEMPLATE when settings load */
+export const LEGACY_FRONT_TEMPLATES = [
+	'{{link}}\n{{#if heading}}\n-> {{heading}}{{/if}}\n\n{{trigger}}',
+	'{{link}}\n{{#if breadcrumb}}\n-> {{breadcrumb}}{{/if}}\n\n{{trigger}}'
+];
+export const DEFAULT_BACK_TEMPLATE = '{{content}}';
+
+/**
+ * Values a card template is filled with
+ */
+export interface CardTemplateContext {
+	/** Note name */
+	file: string;
+	/** Vault path of the note */
+	path: string;
+	/** Note file name, which becomes a link back to the note in Anki when it starts a line */
+	link: string;
+	/** Nearest heading above the trigger line */
+	heading: string;
+	/** All headings leading to the trigger line, e.g. "Part I > Chapter 1 > Vectors" */
+	breadcrumb: string;
+	/** The breadcrumb shortened to the configured depth when it goes on the Front, else empty */
+	frontBreadcrumb: string;
+	/** Trigger name, or the front captured by a pattern trigger */
+	trigger: string;
+	/** Text after the trigger (and its nested block in block mode) */
+	content: string;
+	frontmatter?: Record<string, any>;
+}
+
+const CONDITIONAL_PATTERN = /\{\{#if\s+([^{}\s]+)\s*\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*([^{}#/\s]+)\s*\}\}/g;
+
+/**
+ * Fill in a Handlebars-style card template:
+ * - {{name}} inserts a value; {{frontmatter.x}} a frontmatter field
+ * - {{#if name}}...{{else}}...{{/if}} keeps the first part only when the value isn't empty
+ * Unknown names are left empty. Conditionals can't be nested.
+ */
+export function renderCardTemplate(template: string, context: CardTemplateContext): string {
+	return template
+		.replace(CONDITIONAL_PATTERN, (_, name: string, then: string, otherwise?: string) =>
+			lookup(name, context).trim().length > 0 ? then : (otherwise || ''))
+		.replace(VARIABLE_PATTERN, (_, name: string) => lookup(name, context));
+}
+
+function lookup(name: string, context: CardTemplateContext): string {
+	let value: any;
+	if (name.startsWith('frontmatter.')) {
+		value = context.frontmatter?.[name.substring('frontmatter.'.length)];
+	} else if (name !== 'frontmatter' && Object.prototype.hasOwnProperty.call(context, name)) {
+		value = (context as unknown as Record<string, any>)[name];
+	}
+
+	if (Array.isArray(value)) {
+		return value.join(', ');
+	}
+	return value === undefined || value === null ? '' : String(value);
+}
@@ -0,0 +1,75 @@
+import { QuizQuestion } from './gemini-service';
+import { AnkiQuizSettings } from './settings';
+import { findTriggerConfig } from './trigger-matcher';
+
+/**
+ * Values a deck name template is filled with
+ */
+export interface DeckTemplateContext {
+	/** Vault path of the source note */
+	path?: string;
+	trigger?: string;
+	/** Nearest heading above the card */
+	heading?: string;
+	frontmatter?: Record<string, any>;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}:\s]+)\s*(?::\s*(\d+)\s*)?\}\}/g;
+
+/**
+ * Fill in a deck name template:
+ * - {{folder}}   : folders of the note as subdecks (Courses/Linear Algebra -> Courses::Linear Algebra)
+ * - {{folder:2}} : only the last 2 folders
+ * - {{file}}     : note name
+ * - {{trigger}}  : trigger name
+ * - {{heading}}  : nearest heading above the card
+ * - {{anything}} : the frontmatter field of that name
+ * Empty placeholders drop their subdeck, so `{{folder}}::{{trigger}}` works for notes in the vault root.
+ */
+export function renderDeckTemplate(template: string, context: DeckTemplateContext): string {
+	const pathParts = (context.path || '').split('/').filter(part => part.length > 0);
+	const folders = pathParts.slice(0, -1);
+	const fileName = (pathParts[pathParts.length - 1] || '').replace(/\.md$/, '');
+
+	const rendered = template.replace(PLACEHOLDER_PATTERN, (_, name: string, depth?: string) => {
+		switch (name) {
+			case 'folder':
+				return (depth ? folders.slice(-Number(depth)) : folders).join('::');
+			case 'file':
+				return fileName;
+			case 'trigger':
+				return context.trigger || '';
+			case 'heading':
+				return (context.heading || '').replace(/^#+\s*/, '');
+			default: {
+				const value = context.frontmatter?.[name];
+				if (Array.isArray(value)) {
+					return value.join('::');
+				}
+				return value === undefined || value === null ? '' : String(value);
+			}
+		}
+	});
+
+	return rendered
+		.split('::')
+		.map(part => part.trim())
+		.filter(part => part.length > 0)
+		.join('::');
+}
+
+/**
+ * Deck a card goes to: its own deck (frontmatter, highlight or inline deck), its trigger's deck,
+ * or the deck template, filled in for the card's note
+ */
+export function resolveDeckName(question: QuizQuestion, triggerWord: string | undefined, settings: AnkiQuizSettings, frontmatter?: Record<string, any>): string {
+	const trigger = triggerWord ? findTriggerConfig(settings.triggers, triggerWord) : undefined;
+	const template = question.deck?.trim() || trigger?.deck.trim() || settings.deckTemplate.trim() || '{{trigger}}';
+
+	return renderDeckTemplate(template, {
+		path: question.sourcePath,
+		trigger: trigger?.name || triggerWord,
+		heading: question.sourceHeading,
+		frontmatter
+	}) || trigger?.name || triggerWord || 'Default';
+}
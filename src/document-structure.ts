@@ -0,0 +1,159 @@
+import { SectionCache } from 'obsidian';
+
+/**
+ * Lines of a note that never hold cards:
+ * - YAML frontmatter at the top of the note
+ * - fenced code blocks (``` or ~~~), also inside blockquotes and callouts
+ * - Obsidian %% comments %% and <!-- HTML comments --> (lines inside them, or lines that are only a comment)
+ * A line where a comment only starts mid-line still counts, for the text before the comment.
+ *
+ * Pass the note's sections from Obsidian's metadata cache to take code blocks and frontmatter from
+ * Obsidian's own parser. They are only used when they fit the lines (the cache can lag behind the file);
+ * code in blockquotes and callouts, which sections don't split out, and comments are always scanned for.
+ */
+export function findProtectedLines(lines: string[], sections?: SectionCache[]): Set<number> {
+	const protectedLines = new Set<number>();
+	const parsed = sections && sectionsFitLines(sections, lines) ? sections : null;
+	let start = 0;
+
+	if (parsed) {
+		parsed
+			.filter(section => section.type === 'code' || section.type === 'yaml')
+			.forEach(section => {
+				for (let i = section.position.start.line; i <= section.position.end.line; i++) {
+					protectedLines.add(i);
+				}
+			});
+	} else if (lines.length > 0 && lines[0].trim() === '---') {
+		const end = lines.findIndex((line, index) => index > 0 && (line.trim() === '---' || line.trim() === '...'));
+		if (end !== -1) {
+			for (let i = 0; i <= end; i++) {
+				protectedLines.add(i);
+			}
+			start = end + 1;
+		}
+	}
+
+	let fence: string | null = null;
+	let comment: '%%' | '<!--' | null = null;
+
+	for (let i = start; i < lines.length; i++) {
+		// Code blocks in callouts keep their > markers
+		const quoted = /^[ \t]*>/.test(lines[i]);
+		const text = lines[i].replace(/^(?:[ \t]*>)*/, '').trim();
+
+		if (fence) {
+			protectedLines.add(i);
+			if (text.startsWith(fence) && text.replace(/[`~]/g, '').trim().length === 0) {
+				fence = null;
+			}
+			continue;
+		}
+
+		if (comment) {
+			protectedLines.add(i);
+			const close = comment === '%%' ? '%%' : '-->';
+			const closeAt = text.indexOf(close);
+			if (closeAt !== -1) {
+				// Whatever follows the comment on this line may open another one
+				comment = opensComment(text.substring(closeAt + close.length));
+			}
+			continue;
+		}
+
+		// Code and frontmatter already found by Obsidian's parser
+		if (parsed && protectedLines.has(i)) {
+			continue;
+		}
+
+		const fenceMatch = text.match(/^(`{3,}|~{3,})/);
+		if (fenceMatch && (!parsed || quoted)) {
+			protectedLines.add(i);
+			fence = fenceMatch[1];
+			continue;
+		}
+
+		if ((text.length >= 4 && /^%%.*%%$/.test(text)) || /^<!--.*-->$/.test(text)) {
+			protectedLines.add(i);
+			continue;
+		}
+
+		comment = opensComment(text);
+		if (comment && (text.startsWith('%%') || text.startsWith('<!--'))) {
+			protectedLines.add(i);
+		}
+	}
+
+	return protectedLines;
+}
+
+/**
+ * Split the %% comments %% and <!-- HTML comments --> out of a line, including one that is
+ * left open at the end of the line. Returns the text without them and the comments themselves.
+ */
+export function splitComments(line: string): { text: string; comments: string[] } {
+	const comments: string[] = [];
+	const text = line
+		.replace(/[ \t]*(%%[\s\S]*?(?:%%|$)|<!--[\s\S]*?(?:-->|$))[ \t]*/g, (_, found: string) => {
+			comments.push(found);
+			return ' ';
+		})
+		.replace(/\s+$/, '');
+	return { text: comments.length > 0 ? text : line, comments };
+}
+
+/**
+ * Whether cached sections describe these lines: they end within the note and
+ * their code blocks and frontmatter start where the lines say they do
+ */
+function sectionsFitLines(sections: SectionCache[], lines: string[]): boolean {
+	return sections.every(section => {
+		const { start, end } = section.position;
+		if (end.line >= lines.length) {
+			return false;
+		}
+		if (section.type === 'yaml') {
+			return start.line === 0 && lines[0].trim() === '---';
+		}
+		if (section.type === 'code') {
+			// Fenced, or indented code
+			return /^(?:`{3,}|~{3,})/.test(lines[start.line].trim()) || /^(?: {4}|\t)/.test(lines[start.line]);
+		}
+		return true;
+	});
+}
+
+/**
+ * The comment left open at the end of a line, if any
+ */
+function opensComment(text: string): '%%' | '<!--' | null {
+	let open: '%%' | '<!--' | null = null;
+	let rest = text;
+
+	while (rest.length > 0) {
+		if (open === '%%') {
+			const closeAt = rest.indexOf('%%');
+			if (closeAt === -1) break;
+			open = null;
+			rest = rest.substring(closeAt + 2);
+		} else if (open === '<!--') {
+			const closeAt = rest.indexOf('-->');
+			if (closeAt === -1) break;
+			open = null;
+			rest = rest.substring(closeAt + 3);
+		} else {
+			const percentAt = rest.indexOf('%%');
+			const htmlAt = rest.indexOf('<!--');
+			if (percentAt === -1 && htmlAt === -1) break;
+			if (htmlAt === -1 || (percentAt !== -1 && percentAt < htmlAt)) {
+				open = '%%';
+				rest = rest.substring(percentAt + 2);
+			} else {
+				open = '<!--';
+				rest = rest.substring(htmlAt + 4);
+			}
+		}
+	}
+
+	return open;
+}
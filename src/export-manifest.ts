@@ -0,0 +1,150 @@
+import { QuizQuestion } from './gemini-service';
+import { AnkiQuizSettings } from './settings';
+
+/**
+ * What was exported from a single file on the last successful export
+ */
+export interface FileManifestEntry {
+	path: string;
+	mtime: number;
+	/** Hash of the cards extracted from the file */
+	hash: string;
+	cardIds: string[];
+	noteIds: number[];
+}
+
+/**
+ * Field hashes of an Anki note at its last sync, the common base for three-way conflict detection
+ */
+export interface NoteSyncState {
+	/** Hash of the fields generated from the vault */
+	vault: string;
+	/** Hash of the fields as they were in Anki */
+	anki: string;
+	/** Tags the export last gave the note, so tags dropped from the vault can be removed again */
+	tags?: string[];
+}
+
+export interface ExportManifestData {
+	/** Hash of the settings that shape card output; a change invalidates the mtime shortcut */
+	settingsHash: string;
+	files: Record<string, FileManifestEntry>;
+	/** Sync state keyed by Anki note ID */
+	notes: Record<string, NoteSyncState>;
+}
+
+/**
+ * Per-file record of the last successful Anki export, used to skip unchanged files
+ */
+export class ExportManifest {
+	data: ExportManifestData;
+
+	constructor(data?: Partial<ExportManifestData>) {
+		this.data = {
+			settingsHash: data?.settingsHash || '',
+			files: data?.files || {},
+			notes: data?.notes || {}
+		};
+	}
+
+	get(path: string): FileManifestEntry | undefined {
+		return this.data.files[path];
+	}
+
+	set(entry: FileManifestEntry): void {
+		this.data.files[entry.path] = entry;
+	}
+
+	remove(path: string): void {
+		delete this.data.files[path];
+	}
+
+	/**
+	 * Move an entry to a file's new path (card IDs live in the file, so its notes stay valid)
+	 */
+	rename(oldPath: string, newPath: string): void {
+		const entry = this.data.files[oldPath];
+		if (entry) {
+			delete this.data.files[oldPath];
+			this.data.files[newPath] = { ...entry, path: newPath };
+		}
+	}
+
+	/**
+	 * Drop entries for files that are no longer part of the export.
+	 * Returns the number of entries removed.
+	 */
+	prune(existingPaths: Set<string>): number {
+		let removed = 0;
+		for (const path of Object.keys(this.data.files)) {
+			if (!existingPaths.has(path)) {
+				delete this.data.files[path];
+				removed++;
+			}
+		}
+		return removed;
+	}
+
+	/**
+	 * Record the field hashes of notes that were just synced
+	 */
+	setNoteStates(states: Map<number, NoteSyncState>): void {
+		states.forEach((state, noteId) => {
+			this.data.notes[String(noteId)] = state;
+		});
+	}
+
+	/**
+	 * Hash a file's extracted cards together with the config of the triggers that produced them
+	 */
+	static hashCards(questions: QuizQuestion[], settings: AnkiQuizSettings): string {
+		const triggers = settings.triggers.filter(trigger => questions.some(q => q.trigger === trigger.name));
+		return ExportManifest.hash(JSON.stringify({
+			cards: questions.map(q => [q.type, q.question, q.answer, q.explanation || '', q.cardId || '', q.trigger || '', q.deck || '', q.tags || [], !!q.reversed, q.noteType || '']),
+			triggers
+		}));
+	}
+
+	/**
+	 * Hash the settings that affect every exported card
+	 */
+	static hashSettings(settings: AnkiQuizSettings): string {
+		return ExportManifest.hash(JSON.stringify({
+			triggers: settings.triggers,
+			writeCardIds: settings.writeCardIds,
+			deckTemplate: settings.deckTemplate,
+			cardTemplates: settings.cardTemplates,
+			breadcrumb: settings.breadcrumb,
+			triggerSeparators: settings.triggerSeparators,
+			highlightCloze: settings.highlightCloze,
+			inlineCards: settings.inlineCards,
+			propagateTags: settings.propagateTags,
+			noteType: settings.ankiConnect.noteType,
+			renderMarkdown: settings.ankiConnect.renderMarkdown,
+			wikilinkStyle: settings.ankiConnect.wikilinkStyle,
+			vaultName: settings.ankiConnect.vaultName,
+			linkFormat: settings.ankiConnect.linkFormat
+		}));
+	}
+
+	/**
+	 * Hash the given fields of a note (all of them by default), independent of field order
+	 */
+	static hashFields(fields: Record<string, string>, fieldNames: string[] = Object.keys(fields)): string {
+		return ExportManifest.hash(JSON.stringify(
+			[...fieldNames].sort().map(name => [name, fields[name] || ''])
+		));
+	}
+
+	/**
+	 * 32-bit FNV-1a hash as hex
+	 */
+	static hash(text: string): string {
+		let hash = 0x811c9dc5;
+		for (let i = 0; i < text.length; i++) {
+			hash ^= text.charCodeAt(i);
+			hash = Math.imul(hash, 0x01000193);
+		}
+		return (hash >>> 0).toString(16).padStart(8, '0');
+	}
+}
\ No newline at end of file
@@ -0,0 +1,284 @@
+import { App, Modal, Setting } from 'obsidian';
+import { TrackedAnkiNote } from './anki-connect';
+import { ConflictResolution, ExportPreview, ExportPreviewItem, OrphanAction } from './anki-direct-exporter';
+import { QuizQuestion } from './gemini-service';
+
+/**
+ * What the user confirmed in the export preview
+ */
+export interface ExportSelection {
+	/** New and changed cards to send, plus the unchanged and conflicting ones (settled by resolutions) */
+	questions: QuizQuestion[];
+	resolutions: Map<QuizQuestion, ConflictResolution>;
+	/** Answers kept from Anki to write back into their trigger lines */
+	writeBacks: Array<{ question: QuizQuestion; answer: string }>;
+	orphans: TrackedAnkiNote[];
+	orphanAction: OrphanAction;
+}
+
+/**
+ * Dry run of an export: new, changed (with field diffs), unchanged and orphaned cards.
+ * Nothing is sent to Anki until the user confirms, and unchecked cards are left alone.
+ */
+export class ExportPreviewModal extends Modal {
+	private preview: ExportPreview;
+	private selectedItems: Set<ExportPreviewItem>;
+	private selectedOrphans: Set<number>;
+	private resolutions: Map<ExportPreviewItem, ConflictResolution>;
+	private orphanAction: OrphanAction = 'tag';
+	private onResult: (selection: ExportSelection | null) => void;
+	private confirmed = false;
+
+	/**
+	 * Changed cards start checked when existing notes are set to be updated, or when matched by card ID
+	 */
+	constructor(app: App, preview: ExportPreview, updateExisting: boolean, onResult: (selection: ExportSelection | null) => void) {
+		super(app);
+		this.preview = preview;
+		this.selectedItems = new Set(preview.items.filter(item =>
+			item.status === 'new' || (item.status === 'changed' && (updateExisting || !!item.matchedById))
+		));
+		this.selectedOrphans = new Set(preview.orphans.map(note => note.noteId));
+		// Never overwrite an edit made in Anki unless asked to
+		this.resolutions = new Map(preview.items
+			.filter(item => item.status === 'conflict')
+			.map(item => [item, 'anki'] as [ExportPreviewItem, ConflictResolution]));
+		this.onResult = onResult;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.style.maxWidth = '800px';
+
+		contentEl.createEl('h2', { text: 'Export Preview' });
+
+		const newItems = this.preview.items.filter(item => item.status === 'new');
+		const changedItems = this.preview.items.filter(item => item.status === 'changed');
+		const conflictItems = this.preview.items.filter(item => item.status === 'conflict');
+		const unchangedCount = this.preview.items.filter(item => item.status === 'unchanged').length;
+
+		const summaryDiv = contentEl.createEl('div', { cls: 'processing-summary' });
+		summaryDiv.style.background = 'var(--background-secondary)';
+		summaryDiv.style.padding = '15px';
+		summaryDiv.style.borderRadius = '5px';
+		summaryDiv.style.marginBottom = '20px';
+		summaryDiv.createEl('p', { text: `🆕 ${newItems.length} new · ✏️ ${changedItems.length} changed · ⚠️ ${conflictItems.length} edited in Anki · ✅ ${unchangedCount} unchanged · 🗑️ ${this.preview.orphans.length} orphaned` });
+
+		if (newItems.length > 0) {
+			this.renderSection('New Cards', newItems);
+		}
+		if (changedItems.length > 0) {
+			this.renderSection('Changed Cards', changedItems);
+		}
+		if (conflictItems.length > 0) {
+			this.renderConflicts(conflictItems);
+		}
+		if (this.preview.orphans.length > 0) {
+			this.renderOrphans();
+		}
+
+		// Action buttons
+		const buttonContainer = contentEl.createEl('div', { cls: 'button-container' });
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.justifyContent = 'flex-end';
+		buttonContainer.style.gap = '10px';
+
+		const exportBtn = buttonContainer.createEl('button', { text: 'Export Selected' });
+		exportBtn.classList.add('mod-cta');
+		exportBtn.addEventListener('click', () => {
+			this.confirmed = true;
+			this.close();
+			const resolutions = new Map<QuizQuestion, ConflictResolution>();
+			const writeBacks: Array<{ question: QuizQuestion; answer: string }> = [];
+			this.resolutions.forEach((resolution, item) => {
+				resolutions.set(item.question, resolution);
+				if (resolution === 'anki-writeback' && item.answerInAnki) {
+					writeBacks.push({ question: item.question, answer: item.answerInAnki });
+				}
+			});
+
+			this.onResult({
+				questions: this.preview.items
+					.filter(item => item.status === 'unchanged' || item.status === 'conflict' || this.selectedItems.has(item))
+					.map(item => item.question),
+				resolutions,
+				writeBacks,
+				orphans: this.preview.orphans.filter(note => this.selectedOrphans.has(note.noteId)),
+				orphanAction: this.orphanAction
+			});
+		});
+
+		const closeBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+		closeBtn.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	private renderSection(title: string, items: ExportPreviewItem[]) {
+		this.contentEl.createEl('h3', { text: `${title} (${items.length})` });
+		const listContainer = this.createList();
+
+		items.forEach(item => {
+			const { row, details } = this.createItem(listContainer, this.selectedItems.has(item), checked => {
+				if (checked) {
+					this.selectedItems.add(item);
+				} else {
+					this.selectedItems.delete(item);
+				}
+			});
+			row.title = item.question.sourcePath || '';
+
+			details.createEl('div', {
+				text: `${item.deckName} • ${this.truncate(item.question.answer.split('\n')[0])}`
+			}).style.fontWeight = 'bold';
+
+			if (item.status === 'new') {
+				const preview = details.createEl('div', { text: this.truncate(item.question.question) });
+				preview.style.fontSize = '0.9em';
+				preview.style.color = 'var(--text-muted)';
+				return;
+			}
+
+			item.diffs.forEach(diff => {
+				const diffEl = details.createEl('div');
+				diffEl.style.fontSize = '0.9em';
+				diffEl.style.marginTop = '4px';
+				diffEl.createEl('div', { text: diff.field }).style.color = 'var(--text-muted)';
+
+				const removed = diffEl.createEl('div', { text: `− ${this.toPlainText(diff.existing) || '(empty)'}` });
+				removed.style.color = 'var(--text-error)';
+				const added = diffEl.createEl('div', { text: `+ ${this.toPlainText(diff.incoming) || '(empty)'}` });
+				added.style.color = 'var(--text-success)';
+			});
+		});
+	}
+
+	/**
+	 * Cards edited in Anki since the last sync, each with its own resolution
+	 */
+	private renderConflicts(items: ExportPreviewItem[]) {
+		this.contentEl.createEl('h3', { text: `Edited in Anki (${items.length})` });
+		const listContainer = this.createList();
+
+		items.forEach(item => {
+			const row = listContainer.createEl('div', { cls: 'result-item' });
+			row.style.padding = '8px';
+			row.style.marginBottom = '6px';
+			row.style.border = '1px solid var(--background-modifier-border)';
+			row.style.borderRadius = '3px';
+			row.title = item.question.sourcePath || '';
+
+			const where = item.conflict === 'both' ? 'changed in Obsidian and Anki' : 'changed in Anki';
+			row.createEl('div', {
+				text: `${item.deckName} • ${this.truncate(item.question.answer.split('\n')[0])} (${where})`
+			}).style.fontWeight = 'bold';
+
+			item.diffs.forEach(diff => {
+				const diffEl = row.createEl('div');
+				diffEl.style.fontSize = '0.9em';
+				diffEl.style.marginTop = '4px';
+				diffEl.createEl('div', { text: diff.field }).style.color = 'var(--text-muted)';
+				diffEl.createEl('div', { text: `Anki: ${this.toPlainText(diff.existing) || '(empty)'}` });
+				diffEl.createEl('div', { text: `Obsidian: ${this.toPlainText(diff.incoming) || '(empty)'}` });
+			});
+
+			new Setting(row)
+				.setName('Resolution')
+				.addDropdown(dropdown => {
+					dropdown.addOption('anki', 'Keep Anki');
+					if (item.answerInAnki) {
+						dropdown.addOption('anki-writeback', 'Keep Anki and update the note');
+					}
+					dropdown
+						.addOption('obsidian', 'Keep Obsidian')
+						.addOption('both', 'Keep both')
+						.setValue(this.resolutions.get(item) || 'anki')
+						.onChange((value: ConflictResolution) => {
+							this.resolutions.set(item, value);
+						});
+				});
+		});
+	}
+
+	private renderOrphans() {
+		this.contentEl.createEl('h3', { text: `Removed from Vault (${this.preview.orphans.length})` });
+		const listContainer = this.createList();
+
+		this.preview.orphans.forEach(note => {
+			const { details } = this.createItem(listContainer, true, checked => {
+				if (checked) {
+					this.selectedOrphans.add(note.noteId);
+				} else {
+					this.selectedOrphans.delete(note.noteId);
+				}
+			});
+
+			const trigger = note.tags.find(tag => tag.startsWith('trigger::'));
+			details.createEl('div', {
+				text: `^${note.cardId}${trigger ? ` • ${trigger.substring('trigger::'.length)}` : ''}`
+			}).style.fontWeight = 'bold';
+
+			const html = note.fields['Back'] || note.fields['Text'] || note.fields['Front'] || '';
+			const preview = details.createEl('div', { text: this.truncate(this.toPlainText(html)) });
+			preview.style.fontSize = '0.9em';
+			preview.style.color = 'var(--text-muted)';
+		});
+
+		new Setting(this.contentEl)
+			.setName('Action for removed cards')
+			.setDesc('Applied to the checked notes above')
+			.addDropdown(dropdown => dropdown
+				.addOption('tag', 'Tag as orphaned')
+				.addOption('suspend', 'Suspend cards')
+				.addOption('delete', 'Delete notes')
+				.setValue(this.orphanAction)
+				.onChange((value: OrphanAction) => {
+					this.orphanAction = value;
+				}));
+	}
+
+	private createList(): HTMLElement {
+		const listContainer = this.contentEl.createEl('div', { cls: 'detailed-results' });
+		listContainer.style.maxHeight = '300px';
+		listContainer.style.overflowY = 'auto';
+		listContainer.style.border = '1px solid var(--background-modifier-border)';
+		listContainer.style.borderRadius = '5px';
+		listContainer.style.padding = '10px';
+		listContainer.style.marginBottom = '20px';
+		return listContainer;
+	}
+
+	private createItem(listContainer: HTMLElement, checked: boolean, onChange: (checked: boolean) => void): { row: HTMLElement; details: HTMLElement } {
+		const row = listContainer.createEl('div', { cls: 'result-item' });
+		row.style.display = 'flex';
+		row.style.alignItems = 'flex-start';
+		row.style.gap = '8px';
+		row.style.padding = '8px';
+		row.style.marginBottom = '6px';
+		row.style.border = '1px solid var(--background-modifier-border)';
+		row.style.borderRadius = '3px';
+
+		const checkbox = row.createEl('input', { type: 'checkbox' });
+		checkbox.checked = checked;
+		checkbox.addEventListener('change', () => onChange(checkbox.checked));
+
+		return { row, details: row.createEl('div') };
+	}
+
+	private toPlainText(html: string): string {
+		return html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '').trim();
+	}
+
+	private truncate(text: string): string {
+		return text.length > 120 ? text.substring(0, 120) + '...' : text;
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.confirmed) {
+			this.onResult(null);
+		}
+	}
+}
@@ -8,6 +8,18 @@ export interface QuizQuestion {
 	options?: string[]; // For multiple choice
 	explanation?: string;
 	clozeText?: string; // For cloze deletions - the full text with {{c1::answer}} format
+	cardId?: string; // Stable block ID (e.g. fc-k3x9q2) of the source line, used to match the Anki note
+	trigger?: string; // Name of the trigger that produced this card
+	sourcePath?: string; // Vault path of the note the card came from
+	sourceHeading?: string; // Nearest heading above the source line, used as link anchor
+	sourceLines?: [number, number]; // First and last line (0-based) the card was read from
+	extraFields?: Record<string, string>; // Additional note fields, e.g. the heading breadcrumb
+	deck?: string; // Target deck overriding the trigger's deck
+	tags?: string[]; // Extra Anki tags for this card
+	reversed?: boolean; // Also ask answer -> prompt (when no trigger config sets the direction)
+	noteType?: string; // Anki note type overriding the trigger's (Q&A cards only)
+	backTemplate?: string; // Back field from the card template, with {{content}} standing for the answer
+	backBreadcrumb?: string; // Heading breadcrumb added as a "-> ..." line at the end of the Back
 }
 
 export class GeminiService {
@@ -341,7 +353,7 @@ Respond in JSON format with the question as the key:
 			if (!trimmedLine) continue;
 
 			// Check if line starts with any trigger
-			for (const triggerWord of this.settings.triggers) {
+			for (const triggerWord of this.settings.triggers.filter(t => t.enabled).map(t => t.name)) {
 				const triggerPattern = new RegExp(`^\\*?${triggerWord.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\*?\\s*:?\\s*(.+)$`, 'i');
 				const match = trimmedLine.match(triggerPattern);
 
@@ -381,7 +393,7 @@ Respond in JSON format with the question as the key:
 		}
 
 		if (triggerQuestions.length === 0) {
-			throw new Error(`No triggers found. Use words like: ${this.settings.triggers.slice(0, 3).join(', ')}, etc.`);
+			throw new Error(`No triggers found. Use words like: ${this.settings.triggers.slice(0, 3).map(t => t.name).join(', ')}, etc.`);
 		}
 
 		// Optional: Use AI to improve the questions
@@ -0,0 +1,87 @@
+/**
+ * Trigger name given to cloze cards made from ==highlights==, so they are grouped,
+ * tagged and tracked like trigger cards
+ */
+export const HIGHLIGHT_TRIGGER = 'highlight';
+
+const HIGHLIGHT_PATTERN = /==(?!=)([^\n]+?)==/g;
+
+/**
+ * Lines that become one cloze note
+ */
+export interface HighlightGroup {
+	/** Line indexes of the note text, in document order */
+	lineIndexes: number[];
+	/** Line that carries (or gets) the note's block ID */
+	idLine: number;
+}
+
+/**
+ * Highlighted texts of a line, without the == markers
+ */
+export function getHighlights(line: string): string[] {
+	const highlights: string[] = [];
+	const pattern = new RegExp(HIGHLIGHT_PATTERN.source, 'g');
+	let match;
+	while ((match = pattern.exec(line)) !== null) {
+		highlights.push(match[1]);
+	}
+	return highlights;
+}
+
+/**
+ * Group highlighted lines into cloze notes.
+ * - 'line'      : every line with highlights is a note
+ * - 'paragraph' : all highlights of a paragraph (lines up to a blank line or heading) share a note
+ * Lines for which skipLine returns true (lines of other cards) never become part of a cloze note.
+ */
+export function findHighlightGroups(lines: string[], grouping: 'line' | 'paragraph', skipLine: (line: string, index: number) => boolean): HighlightGroup[] {
+	const skip = (index: number) => skipLine(lines[index], index);
+	const isCandidate = (index: number) => !skip(index) && getHighlights(lines[index]).length > 0;
+	const groups: HighlightGroup[] = [];
+
+	if (grouping === 'line') {
+		lines.forEach((_, index) => {
+			if (isCandidate(index)) {
+				groups.push({ lineIndexes: [index], idLine: index });
+			}
+		});
+		return groups;
+	}
+
+	let paragraph: number[] = [];
+	const flush = () => {
+		const highlighted = paragraph.filter(isCandidate);
+		if (highlighted.length > 0) {
+			// Obsidian reads a block ID at the end of the paragraph; a card line there has its own ID
+			const last = paragraph[paragraph.length - 1];
+			groups.push({
+				lineIndexes: paragraph.filter(index => !skip(index)),
+				idLine: skip(last) ? highlighted[highlighted.length - 1] : last
+			});
+		}
+		paragraph = [];
+	};
+
+	lines.forEach((line, index) => {
+		const trimmed = line.trim();
+		if (trimmed.length === 0 || /^#{1,6}\s/.test(trimmed)) {
+			flush();
+		} else {
+			paragraph.push(index);
+		}
+	});
+	flush();
+
+	return groups;
+}
+
+/**
+ * Turn the highlights into cloze deletions numbered c1, c2, c3... across all lines
+ */
+export function toClozeText(lines: string[]): string {
+	let clozeNumber = 0;
+	return lines
+		.map(line => line.replace(HIGHLIGHT_PATTERN, (_, text: string) => `{{c${++clozeNumber}::${text}}}`))
+		.join('\n');
+}
@@ -0,0 +1,111 @@
+/**
+ * Trigger name given to inline cards, so they are grouped, tagged and tracked like trigger cards
+ */
+export const INLINE_TRIGGER = 'inline';
+
+// "Question::Answer" or "Question:::Answer" (reversed), optionally as a list item
+const SINGLE_LINE_PATTERN = /^(\s*(?:[-*+]\s+|\d+[.)]\s+)?)(.+?)\s*(:::|::)\s*(\S.*?)\s*$/;
+
+/**
+ * A card written inline in a note:
+ * - `Question::Answer` (one-way) or `Question:::Answer` (reversed too) on one line
+ * - question lines, a `?` (or `??` for reversed) line, then answer lines, ending at a blank line or heading
+ */
+export interface InlineCard {
+	question: string;
+	answer: string;
+	reversed: boolean;
+	/** All lines the card was read from */
+	lineIndexes: number[];
+	/** Line that carries (or gets) the card's block ID: the line itself, or the last answer line */
+	idLine: number;
+}
+
+const isBoundary = (line: string) => line.trim().length === 0 || /^#{1,6}\s/.test(line.trim());
+
+/**
+ * Whether a Q::A match is really a Dataview inline field:
+ * - `key:: value` with a single word (optionally bold or italic) as the key
+ * - `[key:: value]` or `(key:: value)` inside a line, where the separator sits in an open bracket
+ */
+function isDataviewField(question: string, separator: string): boolean {
+	const count = (char: string) => question.split(char).length - 1;
+	if (count('[') > count(']') || count('(') > count(')')) {
+		return true;
+	}
+	return separator === '::' && /^[\w-]+$/.test(question.replace(/^([*_]{1,2})(.+)\1$/, '$2'));
+}
+
+/**
+ * Split a line into question, separator and answer if it uses the single-line syntax.
+ * The line must not carry a block ID. Dataview inline fields are skipped unless skipDataviewFields is off.
+ */
+export function parseInlineLine(line: string, skipDataviewFields: boolean = true): { prefix: string; question: string; reversed: boolean; answer: string } | null {
+	const match = line.match(SINGLE_LINE_PATTERN);
+	if (!match || /^#{1,6}\s/.test(line.trim())) {
+		return null;
+	}
+	// "::" inside inline code (e.g. `std::vector`) isn't a separator
+	if ((match[2].split('`').length - 1) % 2 === 1) {
+		return null;
+	}
+	if (skipDataviewFields && isDataviewField(match[2].trim(), match[3])) {
+		return null;
+	}
+	return { prefix: match[1], question: match[2].trim(), reversed: match[3] === ':::', answer: match[4] };
+}
+
+/**
+ * Find the inline cards of a note, in document order.
+ * `prepare` strips block IDs from a line; lines for which skipLine returns true (trigger lines, code) are left out.
+ */
+export function findInlineCards(lines: string[], prepare: (line: string) => string, skipLine: (line: string, index: number) => boolean, skipDataviewFields: boolean = true): InlineCard[] {
+	const cards: InlineCard[] = [];
+	const used = new Set<number>();
+
+	// Multi-line blocks first, so their lines aren't read as single-line cards
+	lines.forEach((line, index) => {
+		const separator = prepare(line).trim();
+		if ((separator !== '?' && separator !== '??') || used.has(index) || skipLine(line, index)) {
+			return;
+		}
+
+		let start = index;
+		while (start > 0 && !isBoundary(lines[start - 1]) && !used.has(start - 1) && !skipLine(lines[start - 1], start - 1)) {
+			start--;
+		}
+		let end = index;
+		while (end < lines.length - 1 && !isBoundary(lines[end + 1]) && !skipLine(lines[end + 1], end + 1)) {
+			end++;
+		}
+		if (start === index || end === index) {
+			return;
+		}
+
+		const lineIndexes: number[] = [];
+		for (let i = start; i <= end; i++) {
+			lineIndexes.push(i);
+			used.add(i);
+		}
+		const text = (from: number, to: number) => lines.slice(from, to + 1).map(prepare).join('\n').trim();
+		cards.push({
+			question: text(start, index - 1),
+			answer: text(index + 1, end),
+			reversed: separator === '??',
+			lineIndexes,
+			idLine: end
+		});
+	});
+
+	lines.forEach((line, index) => {
+		if (used.has(index) || skipLine(line, index)) {
+			return;
+		}
+		const parsed = parseInlineLine(prepare(line), skipDataviewFields);
+		if (parsed) {
+			cards.push({ question: parsed.question, answer: parsed.answer, reversed: parsed.reversed, lineIndexes: [index], idLine: index });
+		}
+	});
+
+	return cards.sort((a, b) => a.lineIndexes[0] - b.lineIndexes[0]);
+}
@@ -0,0 +1,96 @@
+import { marked } from 'marked';
+import { ObsidianLinkFormat, buildObsidianUri } from './obsidian-uri';
+
+export interface MarkdownRenderOptions {
+	/** Vault name used for obsidian:// links */
+	vaultName: string;
+	/**
+	 * How [[wikilinks]] appear in Anki.
+	 * - 'link' : clickable obsidian:// link to the note (default)
+	 * - 'text' : plain text showing the link's display name
+	 */
+	wikilinkStyle?: 'link' | 'text';
+	linkFormat?: ObsidianLinkFormat;
+}
+
+// Fenced code, inline code, display math, inline math and wikilinks/embeds, in order of precedence.
+// Code is matched only so the math and link rules don't apply inside it.
+const SPECIAL_SYNTAX = /(```[\s\S]*?```|~~~[\s\S]*?~~~)|(`+)[\s\S]*?\2|\$\$([\s\S]+?)\$\$|(?<![\\$])\$(?=\S)((?:\\\$|[^$\n])+?)(?<=\S)\$(?!\d)|!?\[\[([^\]\n]+)\]\]/g;
+
+const MATH_PLACEHOLDER = /%%ANKIMATH(\d+)%%/g;
+
+/**
+ * Render Obsidian-flavoured Markdown to HTML for an Anki field.
+ * LaTeX becomes MathJax delimiters Anki understands (\(...\) and \[...\]) and
+ * [[wikilinks]] become links back to Obsidian.
+ */
+export function renderMarkdownToAnkiHtml(markdown: string, options: MarkdownRenderOptions): string {
+	const math: string[] = [];
+
+	const prepared = markdown.replace(SPECIAL_SYNTAX, (match, fenced, backticks, displayMath, inlineMath, wikilink) => {
+		if (displayMath !== undefined) {
+			math.push(`\\[${displayMath.trim()}\\]`);
+			return `%%ANKIMATH${math.length - 1}%%`;
+		}
+		if (inlineMath !== undefined) {
+			math.push(`\\(${inlineMath}\\)`);
+			return `%%ANKIMATH${math.length - 1}%%`;
+		}
+		if (wikilink !== undefined) {
+			return renderWikilink(wikilink, options);
+		}
+		return match;
+	});
+
+	let html = (marked.parse(prepared, {
+		gfm: true,
+		breaks: true,
+		headerIds: false,
+		mangle: false
+	}) as string).trim();
+
+	// A single paragraph doesn't need the wrapper, keeps short fields compact
+	const singleParagraph = html.match(/^<p>([\s\S]*)<\/p>$/);
+	if (singleParagraph && !singleParagraph[1].includes('<p>')) {
+		html = singleParagraph[1];
+	}
+
+	// MathJax reads the field as HTML, so the LaTeX itself has to be escaped
+	return html.replace(MATH_PLACEHOLDER, (_match, index) => escapeHtml(math[Number(index)]));
+}
+
+/**
+ * Turn the inside of [[target#heading|alias]] into a link or its display text
+ */
+function renderWikilink(inner: string, options: MarkdownRenderOptions): string {
+	const [target, alias] = inner.split('|', 2);
+	const [file, ...subpath] = target.split('#').map(part => part.trim());
+	const anchor = subpath[subpath.length - 1] || '';
+	const blockId = anchor.startsWith('^') ? anchor.substring(1) : undefined;
+	const heading = blockId ? undefined : anchor || undefined;
+	const display = alias?.trim() || [file, heading].filter(Boolean).join(' > ');
+
+	if (options.wikilinkStyle === 'text' || !file) {
+		return escapeHtml(display);
+	}
+
+	const uri = buildObsidianUri({ vaultName: options.vaultName, file, heading, blockId }, options.linkFormat);
+	return `<a href="${uri}">${escapeHtml(display)}</a>`;
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+/**
+ * Plain text of an Anki field, e.g. to write an answer edited in Anki back into a note.
+ * Formatting is dropped; <br> becomes a line break.
+ */
+export function ankiHtmlToText(html: string): string {
+	const doc = new DOMParser().parseFromString(html.replace(/<br\s*\/?>/gi, '\n'), 'text/html');
+	return (doc.body.textContent || '').trim();
+}
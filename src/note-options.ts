@@ -0,0 +1,67 @@
+import { QuizQuestion } from './gemini-service';
+
+/**
+ * Per-note export options read from the note's frontmatter:
+ *
+ * ```yaml
+ * anki-deck: Biology::Cells
+ * anki-tags: [exam, chapter-3]
+ * anki-note-type: Basic (type in the answer)
+ * anki-exclude: true
+ * ```
+ */
+export interface NoteOptions {
+	exclude: boolean;
+	deck?: string;
+	noteType?: string;
+	/** Anki tags from anki-tags, plus the note's #tags when propagated */
+	tags: string[];
+}
+
+/**
+ * Read the export options of a note.
+ * Obsidian tags (with or without #) are added as Anki tags when propagateTags is on,
+ * with nested tags converted to Anki's hierarchy (a/b becomes a::b).
+ */
+export function parseNoteOptions(frontmatter: Record<string, any> | undefined, noteTags: string[], propagateTags: boolean): NoteOptions {
+	const text = (value: any) => typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+
+	const exclude = frontmatter?.['anki-exclude'];
+	const tags = toList(frontmatter?.['anki-tags']);
+	if (propagateTags) {
+		tags.push(...noteTags.map(tag => tag.replace(/^#/, '').replace(/\//g, '::')));
+	}
+
+	return {
+		exclude: exclude === true || (typeof exclude === 'string' && ['true', 'yes'].includes(exclude.trim().toLowerCase())),
+		deck: text(frontmatter?.['anki-deck']),
+		noteType: text(frontmatter?.['anki-note-type']),
+		// Anki tags can't contain spaces
+		tags: Array.from(new Set(tags.map(tag => tag.replace(/\s+/g, '_')).filter(tag => tag.length > 0)))
+	};
+}
+
+/**
+ * Apply a note's deck, note type and tags to the cards made from it
+ */
+export function applyNoteOptions(questions: QuizQuestion[], options: NoteOptions): QuizQuestion[] {
+	return questions.map(question => ({
+		...question,
+		deck: options.deck || question.deck,
+		noteType: options.noteType || question.noteType,
+		tags: options.tags.length > 0 ? Array.from(new Set([...(question.tags || []), ...options.tags])) : question.tags
+	}));
+}
+
+/**
+ * Frontmatter list values may be YAML lists or comma/space separated strings
+ */
+function toList(value: any): string[] {
+	if (Array.isArray(value)) {
+		return value.map(item => String(item).trim()).filter(item => item.length > 0);
+	}
+	if (typeof value === 'string') {
+		return value.split(/[,\s]+/).filter(item => item.length > 0);
+	}
+	return [];
+}
@@ -0,0 +1,46 @@
+/**
+ * URI scheme used for links from Anki back to Obsidian.
+ * - 'obsidian' : built-in obsidian://open links
+ * - 'advanced-uri' : obsidian://advanced-uri links (requires the Advanced URI plugin)
+ */
+export type ObsidianLinkFormat = 'obsidian' | 'advanced-uri';
+
+export interface ObsidianLinkTarget {
+	/** Vault to open. Empty lets Obsidian pick the last used vault */
+	vaultName: string;
+	/** Vault path or name of the note */
+	file: string;
+	heading?: string;
+	/** Block ID without the leading ^ */
+	blockId?: string;
+}
+
+/**
+ * Build a link that opens a note, jumping to a block or heading when given
+ */
+export function buildObsidianUri(target: ObsidianLinkTarget, format: ObsidianLinkFormat = 'obsidian'): string {
+	const params: string[] = [];
+	if (target.vaultName) {
+		params.push(`vault=${encodeURIComponent(target.vaultName)}`);
+	}
+
+	if (format === 'advanced-uri') {
+		params.push(`filepath=${encodeURIComponent(target.file)}`);
+		if (target.blockId) {
+			params.push(`block=${encodeURIComponent(target.blockId)}`);
+		} else if (target.heading) {
+			params.push(`heading=${encodeURIComponent(target.heading)}`);
+		}
+		return `obsidian://advanced-uri?${params.join('&')}`;
+	}
+
+	// obsidian://open takes the anchor as part of the file parameter
+	let file = target.file.replace(/\.md$/, '');
+	if (target.blockId) {
+		file += `#^${target.blockId}`;
+	} else if (target.heading) {
+		file += `#${target.heading}`;
+	}
+	params.push(`file=${encodeURIComponent(file)}`);
+	return `obsidian://open?${params.join('&')}`;
+}
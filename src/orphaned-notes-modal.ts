@@ -0,0 +1,120 @@
+import { App, Modal, Setting } from 'obsidian';
+import { TrackedAnkiNote } from './anki-connect';
+import { OrphanAction } from './anki-direct-exporter';
+
+/**
+ * Preview of Anki notes whose trigger line was removed from the vault.
+ * Nothing is changed in Anki until the user picks an action and confirms.
+ */
+export class OrphanedNotesModal extends Modal {
+	private orphans: TrackedAnkiNote[];
+	private selected: Set<number>;
+	private action: OrphanAction = 'tag';
+	private onConfirm: (notes: TrackedAnkiNote[], action: OrphanAction) => void;
+
+	constructor(app: App, orphans: TrackedAnkiNote[], onConfirm: (notes: TrackedAnkiNote[], action: OrphanAction) => void) {
+		super(app);
+		this.orphans = orphans;
+		this.selected = new Set(orphans.map(note => note.noteId));
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Cards Removed from Vault' });
+
+		const summaryDiv = contentEl.createEl('div', { cls: 'processing-summary' });
+		summaryDiv.style.background = 'var(--background-secondary)';
+		summaryDiv.style.padding = '15px';
+		summaryDiv.style.borderRadius = '5px';
+		summaryDiv.style.marginBottom = '20px';
+		summaryDiv.createEl('p', { text: `🗑️ Found ${this.orphans.length} Anki notes whose trigger line no longer exists in the configured folders` });
+
+		// Orphan list
+		const listContainer = contentEl.createEl('div', { cls: 'detailed-results' });
+		listContainer.style.maxHeight = '300px';
+		listContainer.style.overflowY = 'auto';
+		listContainer.style.border = '1px solid var(--background-modifier-border)';
+		listContainer.style.borderRadius = '5px';
+		listContainer.style.padding = '10px';
+		listContainer.style.marginBottom = '20px';
+
+		this.orphans.forEach(note => {
+			const item = listContainer.createEl('div', { cls: 'result-item' });
+			item.style.display = 'flex';
+			item.style.alignItems = 'flex-start';
+			item.style.gap = '8px';
+			item.style.padding = '8px';
+			item.style.marginBottom = '6px';
+			item.style.border = '1px solid var(--background-modifier-border)';
+			item.style.borderRadius = '3px';
+
+			const checkbox = item.createEl('input', { type: 'checkbox' });
+			checkbox.checked = true;
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selected.add(note.noteId);
+				} else {
+					this.selected.delete(note.noteId);
+				}
+			});
+
+			const details = item.createEl('div');
+			const trigger = note.tags.find(tag => tag.startsWith('trigger::'));
+			details.createEl('div', {
+				text: `^${note.cardId}${trigger ? ` • ${trigger.substring('trigger::'.length)}` : ''}`
+			}).style.fontWeight = 'bold';
+
+			const preview = details.createEl('div', { text: this.getPreviewText(note) });
+			preview.style.fontSize = '0.9em';
+			preview.style.color = 'var(--text-muted)';
+		});
+
+		new Setting(contentEl)
+			.setName('Action')
+			.setDesc('What to do with the selected notes in Anki')
+			.addDropdown(dropdown => dropdown
+				.addOption('tag', 'Tag as orphaned')
+				.addOption('suspend', 'Suspend cards')
+				.addOption('delete', 'Delete notes')
+				.setValue(this.action)
+				.onChange((value: OrphanAction) => {
+					this.action = value;
+				}));
+
+		// Action buttons
+		const buttonContainer = contentEl.createEl('div', { cls: 'button-container' });
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.justifyContent = 'flex-end';
+		buttonContainer.style.gap = '10px';
+
+		const applyBtn = buttonContainer.createEl('button', { text: 'Apply to Selected' });
+		applyBtn.classList.add('mod-warning');
+		applyBtn.addEventListener('click', () => {
+			const notes = this.orphans.filter(note => this.selected.has(note.noteId));
+			this.close();
+			this.onConfirm(notes, this.action);
+		});
+
+		const closeBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+		closeBtn.addEventListener('click', () => {
+			this.close();
+		});
+	}
+
+	/**
+	 * Plain-text snippet of the note's answer side
+	 */
+	private getPreviewText(note: TrackedAnkiNote): string {
+		const html = note.fields['Back'] || note.fields['Text'] || note.fields['Front'] || '';
+		const text = html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '').trim();
+		return text.length > 120 ? text.substring(0, 120) + '...' : text;
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
\ No newline at end of file
@@ -2,13 +2,14 @@ import { App, Modal, Setting, Notice, ButtonComponent } from 'obsidian';
 import { QuizQuestion } from './gemini-service';
 import { AnkiExporter } from './anki-exporter';
 import { AnkiDirectExporter } from './anki-direct-exporter';
+import { AnkiPackageExporter } from './anki-package-exporter';
 import { AnkiQuizSettings } from './settings';
 import { GeminiService } from './gemini-service';
 
 export class QuizModal extends Modal {
 	private questions: QuizQuestion[];
 	private currentQuestionIndex: number = 0;
-	private exportFormat: 'txt' | 'csv' | 'ankiconnect';
+	private exportFormat: 'txt' | 'csv' | 'ankiconnect' | 'apkg';
 	private ankiDirectExporter?: AnkiDirectExporter;
 	private settings?: AnkiQuizSettings;
 	private geminiService?: GeminiService;
@@ -16,13 +17,13 @@ export class QuizModal extends Modal {
 	private questionContainer?: HTMLElement;
 	private insightContainer?: HTMLElement;
 
-	constructor(app: App, questions: QuizQuestion[], exportFormat: 'txt' | 'csv' | 'ankiconnect' = 'txt', settings?: AnkiQuizSettings) {
+	constructor(app: App, questions: QuizQuestion[], exportFormat: 'txt' | 'csv' | 'ankiconnect' | 'apkg' = 'txt', settings?: AnkiQuizSettings) {
 		super(app);
 		this.questions = questions;
 		this.exportFormat = exportFormat;
 		this.settings = settings;
 		if (settings?.ankiConnect.enabled) {
-			this.ankiDirectExporter = new AnkiDirectExporter(settings);
+			this.ankiDirectExporter = new AnkiDirectExporter(settings, app);
 		}
 		if (settings?.geminiApiKey) {
 			this.geminiService = new GeminiService(settings);
@@ -388,6 +389,8 @@ export class QuizModal extends Modal {
 	private async exportQuestions() {
 		if (this.exportFormat === 'ankiconnect' && this.ankiDirectExporter) {
 			await this.exportToAnkiConnect();
+		} else if (this.exportFormat === 'apkg' && this.settings) {
+			await this.exportToPackage(this.settings);
 		} else {
 			await this.exportToFile();
 		}
@@ -414,6 +417,20 @@ export class QuizModal extends Modal {
 		}
 	}
 
+	private async exportToPackage(settings: AnkiQuizSettings) {
+		try {
+			const exporter = new AnkiPackageExporter(settings, this.app);
+			const filename = 'anki-questions.apkg';
+			const result = await exporter.downloadPackage(this.questions, filename);
+
+			new Notice(`Exported ${result.notes} notes (${result.cards} cards) to ${filename}`);
+			this.close();
+		} catch (error) {
+			console.error('Anki package export failed:', error);
+			new Notice('Failed to build Anki package. Check console for details.');
+		}
+	}
+
 	private async exportToFile() {
 		let content: string;
 		let filename: string;
@@ -0,0 +1,238 @@
+import { App, ButtonComponent, Modal } from 'obsidian';
+import { QuizQuestion } from './gemini-service';
+import { REVIEW_GRADES, ReviewGrade, ReviewScheduler } from './review-scheduler';
+
+/**
+ * A trigger card with a card ID, together with the deck it belongs to
+ */
+export interface ReviewCard {
+	cardId: string;
+	deck: string;
+	question: QuizQuestion;
+}
+
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+	again: 'Again',
+	hard: 'Hard',
+	good: 'Good',
+	easy: 'Easy'
+};
+
+/**
+ * Spaced-repetition review of trigger cards inside Obsidian.
+ * Shows the due count per deck, then steps through due cards with
+ * Again/Hard/Good/Easy grading (keys 1-4, Space/Enter to reveal).
+ */
+export class ReviewModal extends Modal {
+	private cards: ReviewCard[];
+	private scheduler: ReviewScheduler;
+	private onReview: () => Promise<void>;
+	private queue: ReviewCard[] = [];
+	private revealed = false;
+	private reviewedCount = 0;
+
+	constructor(app: App, cards: ReviewCard[], scheduler: ReviewScheduler, onReview: () => Promise<void>) {
+		super(app);
+		this.cards = cards;
+		this.scheduler = scheduler;
+		this.onReview = onReview;
+	}
+
+	onOpen() {
+		this.contentEl.style.maxWidth = '700px';
+
+		this.scope.register([], ' ', () => this.handleRevealKey());
+		this.scope.register([], 'Space', () => this.handleRevealKey());
+		this.scope.register([], 'Enter', () => this.handleRevealKey());
+		REVIEW_GRADES.forEach((grade, index) => {
+			this.scope.register([], String(index + 1), () => {
+				if (this.queue.length > 0 && this.revealed) {
+					this.grade(grade);
+				}
+				return false;
+			});
+		});
+
+		this.showDecks();
+	}
+
+	private handleRevealKey(): boolean {
+		if (this.queue.length > 0 && !this.revealed) {
+			this.revealed = true;
+			this.showCard();
+		}
+		return false;
+	}
+
+	/**
+	 * Deck overview with the number of cards due today
+	 */
+	private showDecks() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.queue = [];
+
+		contentEl.createEl('h2', { text: 'Review Trigger Cards' });
+
+		const decks = new Map<string, ReviewCard[]>();
+		this.cards.forEach(card => {
+			decks.set(card.deck, [...(decks.get(card.deck) || []), card]);
+		});
+
+		const list = contentEl.createEl('div', { cls: 'detailed-results' });
+		list.style.border = '1px solid var(--background-modifier-border)';
+		list.style.borderRadius = '5px';
+		list.style.padding = '10px';
+		list.style.marginBottom = '20px';
+
+		let totalDue = 0;
+		Array.from(decks.keys()).sort().forEach(deck => {
+			const deckCards = decks.get(deck) || [];
+			const cardIds = deckCards.map(card => card.cardId);
+			const dueToday = this.scheduler.countDueToday(cardIds);
+			const newCount = cardIds.filter(cardId => this.scheduler.isNew(cardId)).length;
+			totalDue += dueToday;
+
+			const row = list.createEl('div', { cls: 'result-item' });
+			row.style.display = 'flex';
+			row.style.justifyContent = 'space-between';
+			row.style.alignItems = 'center';
+			row.style.padding = '8px';
+
+			const info = row.createEl('div');
+			info.createEl('strong', { text: deck });
+			const counts = info.createEl('div', { text: `${dueToday} due today · ${newCount} new · ${deckCards.length} total` });
+			counts.style.fontSize = '12px';
+			counts.style.color = 'var(--text-muted)';
+
+			new ButtonComponent(row)
+				.setButtonText('Study')
+				.setDisabled(dueToday === 0)
+				.onClick(() => this.startSession(deckCards));
+		});
+
+		const buttonContainer = contentEl.createEl('div');
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.gap = '10px';
+		buttonContainer.style.justifyContent = 'flex-end';
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText(`Study All (${totalDue})`)
+			.setCta()
+			.setDisabled(totalDue === 0)
+			.onClick(() => this.startSession(this.cards));
+	}
+
+	private startSession(cards: ReviewCard[]) {
+		const now = Date.now();
+		this.queue = cards.filter(card => this.scheduler.isDue(card.cardId, now));
+		this.reviewedCount = 0;
+		this.revealed = false;
+
+		if (this.queue.length === 0) {
+			this.showDecks();
+			return;
+		}
+		this.showCard();
+	}
+
+	private showCard() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const card = this.queue[0];
+
+		const header = contentEl.createEl('div');
+		header.style.display = 'flex';
+		header.style.justifyContent = 'space-between';
+		header.style.marginBottom = '15px';
+		header.style.color = 'var(--text-muted)';
+		header.style.fontSize = '14px';
+		header.createEl('span', { text: card.deck });
+		header.createEl('span', { text: `${this.queue.length} left · ${this.reviewedCount} reviewed` });
+
+		const questionCard = contentEl.createEl('div', { cls: 'question-card' });
+		questionCard.style.padding = '20px';
+		questionCard.style.border = '2px solid var(--background-modifier-border)';
+		questionCard.style.borderRadius = '12px';
+		questionCard.style.backgroundColor = 'var(--background-primary)';
+		questionCard.style.marginBottom = '20px';
+
+		const questionText = questionCard.createEl('div', { cls: 'question-text' });
+		questionText.style.fontSize = '18px';
+		questionText.style.fontWeight = '600';
+		questionText.style.whiteSpace = 'pre-line';
+		questionText.textContent = card.question.question;
+
+		const controls = contentEl.createEl('div');
+		controls.style.display = 'flex';
+		controls.style.gap = '10px';
+		controls.style.justifyContent = 'center';
+
+		if (!this.revealed) {
+			new ButtonComponent(controls)
+				.setButtonText('Show Answer (Space)')
+				.setCta()
+				.onClick(() => this.handleRevealKey());
+			return;
+		}
+
+		const answerSection = questionCard.createEl('div', { cls: 'answer-section' });
+		answerSection.style.marginTop = '15px';
+		answerSection.style.padding = '15px';
+		answerSection.style.backgroundColor = 'var(--background-secondary)';
+		answerSection.style.borderRadius = '8px';
+		answerSection.style.whiteSpace = 'pre-line';
+		answerSection.textContent = card.question.answer;
+
+		REVIEW_GRADES.forEach((grade, index) => {
+			const interval = ReviewScheduler.formatInterval(this.scheduler.previewInterval(card.cardId, grade));
+			const button = new ButtonComponent(controls)
+				.setButtonText(`${GRADE_LABELS[grade]} (${index + 1}) · ${interval}`)
+				.onClick(() => this.grade(grade));
+			if (grade === 'good') {
+				button.setCta();
+			}
+		});
+	}
+
+	private async grade(grade: ReviewGrade) {
+		const card = this.queue.shift();
+		if (!card) return;
+
+		const state = this.scheduler.review(card.cardId, grade);
+		this.reviewedCount++;
+		this.revealed = false;
+
+		// Failed cards come back at the end of this session
+		if (state.interval === 0) {
+			this.queue.push(card);
+		}
+
+		await this.onReview();
+
+		if (this.queue.length > 0) {
+			this.showCard();
+		} else {
+			this.showFinished();
+		}
+	}
+
+	private showFinished() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Review Complete' });
+		contentEl.createEl('p', { text: `🎉 Reviewed ${this.reviewedCount} cards. Come back tomorrow for the next ones.` });
+
+		new ButtonComponent(contentEl)
+			.setButtonText('Back to Decks')
+			.setCta()
+			.onClick(() => this.showDecks());
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,174 @@
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export interface ReviewLogEntry {
+	time: number;
+	grade: ReviewGrade;
+	/** Interval in days given by this review (0 = relearn today) */
+	interval: number;
+	ease: number;
+}
+
+/**
+ * Scheduling state of a single card, keyed by its card ID
+ */
+export interface CardReviewState {
+	/** Timestamp (ms) from which the card is due */
+	due: number;
+	/** Current interval in days */
+	interval: number;
+	/** SM-2 ease factor */
+	ease: number;
+	/** Successful reviews in a row */
+	reps: number;
+	lapses: number;
+	history: ReviewLogEntry[];
+}
+
+export interface ReviewData {
+	cards: Record<string, CardReviewState>;
+}
+
+const INITIAL_EASE = 2.5;
+const MINIMUM_EASE = 1.3;
+// Failed cards come back within the same session
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * SM-2 scheduler for reviewing trigger cards inside Obsidian, without Anki.
+ * Intervals are whole days; a card is due from the start of its due day.
+ */
+export class ReviewScheduler {
+	data: ReviewData;
+
+	constructor(data?: Partial<ReviewData>) {
+		this.data = {
+			cards: data?.cards || {}
+		};
+	}
+
+	get(cardId: string): CardReviewState | undefined {
+		return this.data.cards[cardId];
+	}
+
+	/**
+	 * Cards never reviewed are new and due right away
+	 */
+	isDue(cardId: string, now: number = Date.now()): boolean {
+		const state = this.get(cardId);
+		return !state || state.due <= now;
+	}
+
+	isNew(cardId: string): boolean {
+		return !this.get(cardId);
+	}
+
+	/**
+	 * Number of cards due by the end of today
+	 */
+	countDueToday(cardIds: string[], now: number = Date.now()): number {
+		const endOfToday = this.startOfDay(now) + DAY_MS;
+		return cardIds.filter(cardId => {
+			const state = this.get(cardId);
+			return !state || state.due < endOfToday;
+		}).length;
+	}
+
+	/**
+	 * Record a review and reschedule the card
+	 */
+	review(cardId: string, grade: ReviewGrade, now: number = Date.now()): CardReviewState {
+		const previous = this.get(cardId);
+		const next = this.schedule(previous, grade, now);
+		next.history = [...(previous?.history || []), { time: now, grade, interval: next.interval, ease: next.ease }];
+		this.data.cards[cardId] = next;
+		return next;
+	}
+
+	/**
+	 * Interval in days a grade would give, for the button labels
+	 */
+	previewInterval(cardId: string, grade: ReviewGrade, now: number = Date.now()): number {
+		return this.schedule(this.get(cardId), grade, now).interval;
+	}
+
+	private schedule(state: CardReviewState | undefined, grade: ReviewGrade, now: number): CardReviewState {
+		const ease = state?.ease ?? INITIAL_EASE;
+		const reps = state?.reps ?? 0;
+		const interval = state?.interval ?? 0;
+		const lapses = state?.lapses ?? 0;
+
+		if (grade === 'again') {
+			return {
+				due: now + RELEARN_DELAY_MS,
+				interval: 0,
+				ease: Math.max(MINIMUM_EASE, ease - 0.2),
+				reps: 0,
+				lapses: reps > 0 ? lapses + 1 : lapses,
+				history: []
+			};
+		}
+
+		const nextInterval = this.nextInterval(grade, reps, interval, ease);
+		let nextEase = ease;
+		if (grade === 'hard') {
+			nextEase = Math.max(MINIMUM_EASE, ease - 0.15);
+		} else if (grade === 'easy') {
+			nextEase = ease + 0.15;
+		}
+
+		return {
+			due: this.startOfDay(now) + nextInterval * DAY_MS,
+			interval: nextInterval,
+			ease: nextEase,
+			reps: reps + 1,
+			lapses,
+			history: []
+		};
+	}
+
+	/**
+	 * Days until the next review after a passing grade.
+	 * Each grade gives at least the interval of the grade below it, so Easy >= Good >= Hard.
+	 */
+	private nextInterval(grade: Exclude<ReviewGrade, 'again'>, reps: number, interval: number, ease: number): number {
+		const hard = reps === 0 ? 1 : Math.max(interval + 1, Math.round(interval * 1.2));
+		if (grade === 'hard') {
+			return hard;
+		}
+
+		let good: number;
+		let easy: number;
+		if (reps === 0) {
+			good = 1;
+			easy = 4;
+		} else if (reps === 1) {
+			good = 6;
+			easy = Math.round(6 * 1.3);
+		} else {
+			good = Math.max(interval + 1, Math.round(interval * ease));
+			easy = Math.round(interval * ease * 1.3);
+		}
+
+		good = Math.max(hard, good);
+		return grade === 'good' ? good : Math.max(good, easy);
+	}
+
+	private startOfDay(time: number): number {
+		const date = new Date(time);
+		date.setHours(0, 0, 0, 0);
+		return date.getTime();
+	}
+
+	/**
+	 * Short label for an interval, e.g. "10m", "3d", "2mo"
+	 */
+	static formatInterval(days: number): string {
+		if (days <= 0) return `${RELEARN_DELAY_MS / 60000}m`;
+		if (days < 30) return `${days}d`;
+		if (days < 365) return `${Math.round(days / 30)}mo`;
+		return `${(days / 365).toFixed(1)}y`;
+	}
+}
@@ -1,26 +1,229 @@
 import { AnkiConnectSettings } from './anki-connect';
+import { DEFAULT_BACK_TEMPLATE, DEFAULT_FRONT_TEMPLATE } from './card-template';
+
+/**
+ * Configuration for a single trigger (e.g. "key point")
+ */
+export interface TriggerConfig {
+	/** Trigger text matched at the start of a line (the label of pattern triggers) */
+	name: string;
+	/** Other spellings of the trigger (e.g. "ex", "e.g."), all giving cards of this trigger */
+	aliases: string[];
+	enabled: boolean;
+	/**
+	 * How lines are matched.
+	 * - 'literal' : the name at the start of a line, followed by : or .
+	 * - 'regex' : the pattern, with named groups front, back, deck and tags
+	 */
+	kind: 'literal' | 'regex';
+	/** Regular expression of a pattern trigger, e.g. ^(?<front>.+?) — (?<back>.+)$ */
+	pattern: string;
+	/** Target Anki deck, use :: for subdecks. Empty uses the deck template */
+	deck: string;
+	/** Anki note type. Empty uses the default note type from the AnkiConnect settings */
+	noteType: string;
+	/** Anki field that receives the prompt (filename, header, trigger) */
+	frontField: string;
+	/** Anki field that receives the captured answer */
+	backField: string;
+	/** Extra Anki tags added to every card of this trigger */
+	tags: string[];
+	/**
+	 * Which way the card is asked.
+	 * - 'front' : prompt on the front, answer on the back (default)
+	 * - 'back' : answer on the front, prompt on the back
+	 * - 'reversed' : both directions (uses a reversed note type)
+	 */
+	direction: 'front' | 'back' | 'reversed';
+	/**
+	 * How much of the note becomes the answer.
+	 * - 'line' : the rest of the trigger line
+	 * - 'block' : the line plus sub-bullets, continuation lines, code and tables under it
+	 */
+	answerMode: 'line' | 'block';
+}
+
+/**
+ * Cloze cards made from ==highlights==
+ */
+export interface HighlightClozeSettings {
+	enabled: boolean;
+	/** Folders whose highlights become cloze cards. Empty uses all configured folders */
+	folders: string[];
+	/** Target Anki deck, use :: for subdecks */
+	deck: string;
+	/**
+	 * Which highlights share a note (as c1, c2, c3...).
+	 * - 'line' : the highlights of one line
+	 * - 'paragraph' : the highlights of a paragraph
+	 */
+	grouping: 'line' | 'paragraph';
+	/** Extra Anki tags added to every highlight card */
+	tags: string[];
+}
+
+/**
+ * Cards written inline: Q::A, Q:::A and multi-line ?/?? blocks
+ */
+export interface InlineCardSettings {
+	enabled: boolean;
+	/** Target Anki deck, use :: for subdecks */
+	deck: string;
+	/** Extra Anki tags added to every inline card */
+	tags: string[];
+	/** Leave Dataview inline fields (`key:: value`, `[key:: value]`) alone */
+	skipDataviewFields: boolean;
+}
+
+/**
+ * Heading path shown as context on cards, e.g. "Chapter 1 > Vectors > Basis"
+ */
+export interface BreadcrumbSettings {
+	/** Number of headings shown, counted from the nearest one. 0 shows the full path */
+	depth: number;
+	separator: string;
+	/**
+	 * Where the breadcrumb goes.
+	 * - 'front' : a "-> ..." line under the file name on the Front
+	 * - 'back'  : a "-> ..." line at the end of the Back (Extra for cloze cards)
+	 * - 'field' : its own note field (fieldName), for note types that have one
+	 */
+	placement: 'front' | 'back' | 'field';
+	fieldName: string;
+}
+
+/**
+ * Handlebars-style templates for the Front and Back of trigger cards (see card-template.ts)
+ */
+export interface CardTemplateSettings {
+	front: string;
+	back: string;
+}
 
 export interface AnkiQuizSettings {
 	geminiApiKey: string;
-	exportFormat: 'txt' | 'csv' | 'ankiconnect';
-	triggers: string[];
+	exportFormat: 'txt' | 'csv' | 'ankiconnect' | 'apkg';
+	triggers: TriggerConfig[];
+	/** Text accepted between a trigger and its answer, e.g. ":", ".", "—", "-", "=>", "::" */
+	triggerSeparators: string[];
 	folderPaths: string[];
+	cardTemplates: CardTemplateSettings;
+	breadcrumb: BreadcrumbSettings;
+	/** Deck for trigger cards without a deck of their own, e.g. {{folder:2}}::{{trigger}} (see deck-template.ts) */
+	deckTemplate: string;
+	/** Append a block ID (^fc-xxxxxx) to trigger lines so each card keeps a stable identity in Anki */
+	writeCardIds: boolean;
+	/** After a full export, offer to clean up Anki notes whose trigger line was removed */
+	reconcileAfterExport: boolean;
+	/** Show new, changed and removed cards for confirmation before exporting to Anki */
+	previewBeforeExport: boolean;
+	/** Add the note's #tags to its cards as Anki tags (nested/tag becomes nested::tag) */
+	propagateTags: boolean;
+	/** Push changed files to Anki in the background when they are saved */
+	autoSync: boolean;
+	/** Seconds to wait after the last change before a background sync */
+	autoSyncDelay: number;
+	/** Show Anki review stats next to trigger lines in the editor */
+	showInlineStats: boolean;
+	/** Lapses after which a card counts as a leech (Anki's own leech tag also counts) */
+	leechThreshold: number;
+	highlightCloze: HighlightClozeSettings;
+	inlineCards: InlineCardSettings;
 	ankiConnect: AnkiConnectSettings;
 }
 
+/**
+ * Create a trigger with default options
+ */
+export function createTriggerConfig(name: string, overrides: Partial<TriggerConfig> = {}): TriggerConfig {
+	return {
+		name,
+		aliases: [],
+		enabled: true,
+		kind: 'literal',
+		pattern: '',
+		deck: '',
+		noteType: '',
+		frontField: 'Front',
+		backField: 'Back',
+		tags: [],
+		direction: 'front',
+		answerMode: 'line',
+		...overrides
+	};
+}
+
+/**
+ * Bring saved trigger data up to date. Older versions stored triggers as plain strings
+ * and multi-line triggers in a separate `blockTriggers` list.
+ * Triggers without a name yet are kept (they never match, see isUsableTrigger).
+ */
+export function migrateTriggers(triggers: Array<string | Partial<TriggerConfig>>, blockTriggers: string[] = []): TriggerConfig[] {
+	const blockNames = new Set(blockTriggers.map(name => name.toLowerCase()));
+
+	return triggers
+		// Blank lines of the old plain-text list were never triggers
+		.filter(trigger => typeof trigger !== 'string' || trigger.trim().length > 0)
+		.map(trigger => {
+			if (typeof trigger === 'string') {
+				return createTriggerConfig(trigger.trim(), {
+					answerMode: blockNames.has(trigger.trim().toLowerCase()) ? 'block' : 'line'
+				});
+			}
+			return createTriggerConfig(trigger.name?.trim() || '', trigger);
+		});
+}
+
 export const DEFAULT_SETTINGS: AnkiQuizSettings = {
 	geminiApiKey: '',
 	exportFormat: 'txt',
 	triggers: [
-		'prototypical example',
-		'key point',
+		createTriggerConfig('prototypical example'),
+		createTriggerConfig('key point'),
 	],
+	triggerSeparators: [':', '.'],
 	folderPaths: [],
+	cardTemplates: {
+		front: DEFAULT_FRONT_TEMPLATE,
+		back: DEFAULT_BACK_TEMPLATE
+	},
+	breadcrumb: {
+		depth: 1,
+		separator: ' > ',
+		placement: 'front',
+		fieldName: 'Breadcrumb'
+	},
+	deckTemplate: '{{trigger}}',
+	writeCardIds: false,
+	reconcileAfterExport: true,
+	previewBeforeExport: true,
+	propagateTags: false,
+	autoSync: false,
+	autoSyncDelay: 10,
+	showInlineStats: false,
+	leechThreshold: 8,
+	highlightCloze: {
+		enabled: false,
+		folders: [],
+		deck: 'Highlights',
+		grouping: 'line',
+		tags: []
+	},
+	inlineCards: {
+		enabled: false,
+		deck: 'Inline',
+		tags: [],
+		skipDataviewFields: true
+	},
 	ankiConnect: {
 		enabled: true,
 		url: 'http://localhost:8765',
 		allowDeckCreation: true,
 		noteType: 'Basic',
-		existingNoteBehavior: 'skip'
+		existingNoteBehavior: 'skip',
+		renderMarkdown: true,
+		wikilinkStyle: 'link',
+		vaultName: '',
+		linkFormat: 'obsidian'
 	}
 };
\ No newline at end of file
@@ -0,0 +1,210 @@
+import { TriggerConfig } from './settings';
+import { INLINE_TRIGGER } from './inline-cards';
+import { HIGHLIGHT_TRIGGER } from './highlight-cloze';
+
+/**
+ * What a trigger found on a line (without its block ID)
+ */
+export interface TriggerLineMatch {
+	/** Prompt of the card: the trigger name, or the front group of a pattern trigger */
+	front: string;
+	/** Answer on the trigger line */
+	back: string;
+	/** Where the answer starts and ends in the line, so it can be replaced in place */
+	backStart: number;
+	backEnd: number;
+	/** Deck and tags captured by a pattern trigger */
+	deck?: string;
+	tags?: string[];
+}
+
+type NamedGroups = { groups?: Record<string, string | undefined> };
+/** Group offsets of a match made with the d flag (not in the ES6 typings) */
+type GroupIndices = { indices?: { groups?: Record<string, [number, number] | undefined> } };
+
+/** Separators accepted between a trigger and its answer when none are configured */
+export const DEFAULT_TRIGGER_SEPARATORS = [':', '.'];
+
+/** Trigger names of inline and highlight cards, which take their deck and tags from their own settings */
+const BUILT_IN_TRIGGER_NAMES = [INLINE_TRIGGER, HIGHLIGHT_TRIGGER];
+
+const patternCache = new Map<string, RegExp | null>();
+const triggerRegexCache = new Map<string, RegExp>();
+
+/**
+ * Forget compiled trigger expressions. Call when the triggers or separators change,
+ * so expressions of old settings (every keystroke of an edited trigger) don't pile up.
+ */
+export function clearTriggerCaches(): void {
+	patternCache.clear();
+	triggerRegexCache.clear();
+}
+
+/**
+ * Escape text for use as a literal inside a regular expression
+ */
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Pattern to match trigger word at start of line, allowing markdown formatting.
+ * Allows indentation, blockquote and callout prefixes (> , > [!note]), list markers (- , * , + , 1. , 1) ),
+ * task checkboxes ([ ] , [x] ) and *, **, ***, _, __, ___ or == emphasis around the trigger.
+ * Triggers (a trigger's name and aliases) and separators are matched literally,
+ * so triggers like `e.g.` or `C++ idiom` and separators like `=>` work as written.
+ * Group 1 is everything before the trigger, group 2 the trigger and group 3 the definition.
+ */
+export function buildTriggerRegex(triggerWords: string[], separators: string[] = DEFAULT_TRIGGER_SEPARATORS): RegExp {
+	const key = JSON.stringify([triggerWords, separators]);
+	const cached = triggerRegexCache.get(key);
+	if (cached) {
+		return cached;
+	}
+
+	// Longest first, so "prototypical example" wins over "ex" and "::" over ":"
+	const alternatives = (items: string[]) => [...items]
+		.sort((a, b) => b.length - a.length)
+		.map(escapeRegExp)
+		.join('|');
+	const emphasis = '(?:\\*{1,3}|_{1,3}|==)';
+	const linePrefix = '(?:[ \\t]*>)*(?:[ \\t]*\\[![^\\]]+\\][+-]?)?[ \\t]*(?:(?:[-*+]|\\d+[.)])[ \\t]+)?(?:\\[[ xX]\\][ \\t]+)?';
+	const regex = new RegExp(`^(${linePrefix}${emphasis}?)\\s*(${alternatives(triggerWords)})${emphasis}?\\s*(?:${alternatives(separators)})(?:${emphasis}(?=\\s))?\\s*(.+)`, 'i');
+	triggerRegexCache.set(key, regex);
+	return regex;
+}
+
+/**
+ * A trigger's name followed by its aliases (without the names of built-in cards, see validateTriggerNames)
+ */
+export function getTriggerNames(trigger: TriggerConfig): string[] {
+	return [trigger.name, ...(trigger.aliases || [])]
+		.map(name => name.trim())
+		.filter(name => name.length > 0 && !BUILT_IN_TRIGGER_NAMES.includes(name.toLowerCase()));
+}
+
+/**
+ * The trigger with this name or alias (case-insensitive), so aliases map to their canonical trigger.
+ * Inline and highlight cards never get a configured trigger, even one named like them.
+ */
+export function findTriggerConfig(triggers: TriggerConfig[], triggerWord: string): TriggerConfig | undefined {
+	const word = triggerWord.trim().toLowerCase();
+	if (BUILT_IN_TRIGGER_NAMES.includes(word)) {
+		return undefined;
+	}
+	return triggers.find(trigger => trigger.name.toLowerCase() === word) ||
+		triggers.find(trigger => getTriggerNames(trigger).some(name => name.toLowerCase() === word));
+}
+
+/**
+ * Check a trigger's name and aliases against the names of the built-in inline and highlight cards.
+ * Returns an error message, or null when they can be used.
+ */
+export function validateTriggerNames(trigger: TriggerConfig): string | null {
+	const reserved = [trigger.name, ...(trigger.aliases || [])]
+		.map(name => name.trim())
+		.find(name => BUILT_IN_TRIGGER_NAMES.includes(name.toLowerCase()));
+	return reserved ? `"${reserved}" is the name of the built-in ${reserved.toLowerCase()} cards. Choose another name.` : null;
+}
+
+/**
+ * Check a pattern trigger's regular expression.
+ * Returns an error message, or null when the pattern can be used.
+ */
+export function validateTriggerPattern(pattern: string): string | null {
+	if (pattern.trim().length === 0) {
+		return 'Enter a regular expression';
+	}
+
+	let regex: RegExp;
+	try {
+		regex = new RegExp(pattern);
+	} catch (error) {
+		return error.message;
+	}
+
+	if (!/\(\?<back>/.test(pattern)) {
+		return 'The pattern needs a named group for the answer: (?<back>...)';
+	}
+	if (regex.test('')) {
+		return 'The pattern matches empty lines';
+	}
+	return null;
+}
+
+/**
+ * Match a line (without its block ID) against a trigger.
+ * - literal triggers: `trigger: answer` with the name or an alias and one of the separators, see buildTriggerRegex
+ * - pattern triggers: the user's regular expression, with named groups front, back, deck and tags
+ * The front of a literal trigger is always its (canonical) name, whichever alias was written.
+ */
+export function matchTrigger(line: string, trigger: TriggerConfig, separators: string[] = DEFAULT_TRIGGER_SEPARATORS): TriggerLineMatch | null {
+	if (trigger.kind === 'regex') {
+		const regex = compilePattern(trigger.pattern);
+		const match = regex ? line.match(regex) : null;
+		const groups = (match as (RegExpMatchArray & NamedGroups) | null)?.groups;
+		const back = groups?.back?.trim();
+		if (!match || !groups || !back) {
+			return null;
+		}
+
+		// Offset of the back group itself, so text matching it earlier in the line (e.g. a tag) isn't replaced
+		const backSpan = (match as RegExpMatchArray & GroupIndices).indices?.groups?.back;
+		const backStart = backSpan ?
+			backSpan[0] + (groups.back as string).search(/\S/) :
+			(match.index || 0) + match[0].lastIndexOf(back);
+		return {
+			front: groups.front?.trim() || trigger.name,
+			back,
+			backStart,
+			backEnd: backStart + back.length,
+			deck: groups.deck?.trim() || undefined,
+			tags: groups.tags ?
+				groups.tags.split(/[,\s]+/).map(tag => tag.replace(/^#/, '')).filter(tag => tag.length > 0) :
+				undefined
+		};
+	}
+
+	const usableSeparators = separators.filter(separator => separator.length > 0);
+	const match = line.match(buildTriggerRegex(getTriggerNames(trigger),
+		usableSeparators.length > 0 ? usableSeparators : DEFAULT_TRIGGER_SEPARATORS));
+	if (!match || match[3].trim().length === 0) {
+		return null;
+	}
+	return {
+		front: trigger.name,
+		back: match[3].trim(),
+		backStart: line.length - match[3].length,
+		backEnd: line.length
+	};
+}
+
+/**
+ * Whether a trigger can match anything: a name that isn't a built-in one, and for pattern triggers a valid pattern
+ */
+export function isUsableTrigger(trigger: TriggerConfig): boolean {
+	const name = trigger.name.trim();
+	if (name.length === 0 || BUILT_IN_TRIGGER_NAMES.includes(name.toLowerCase())) {
+		return false;
+	}
+	return trigger.kind !== 'regex' || compilePattern(trigger.pattern) !== null;
+}
+
+/**
+ * A pattern trigger's regular expression, with group offsets (d flag) where the platform has them
+ */
+function compilePattern(pattern: string): RegExp | null {
+	if (!patternCache.has(pattern)) {
+		let regex: RegExp | null = null;
+		if (validateTriggerPattern(pattern) === null) {
+			try {
+				regex = new RegExp(pattern, 'd');
+			} catch (error) {
+				// Platforms without the d flag fall back to searching for the answer
+				regex = new RegExp(pattern);
+			}
+		}
+		patternCache.set(pattern, regex);
+	}
+	return patternCache.get(pattern) as RegExp | null;
+}
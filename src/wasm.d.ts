@@ -0,0 +1,5 @@
+// WebAssembly binaries are inlined by esbuild's binary loader
+declare module '*.wasm' {
+	const content: Uint8Array;
+	export default content;
+}